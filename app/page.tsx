@@ -2,22 +2,25 @@
 'use client';
 
 import { useEffect, useMemo, useRef, useState } from 'react';
-import CanvasSketch from '@/components/canvas-sketch';
-import { LissajousSketch } from '@/lib/sketches/lissajous';
-import { PixelatorSketch } from '@/lib/sketches/pixelator';
-import { MultiRangeSlider } from '@/components/multi-range-slider';
-
-import { useCanvasRecorder } from '@/lib/use-canvas-recorder';
-import { cn } from '@/lib/utils';
-import { ChevronDown, ArrowRightLeft } from 'lucide-react';
-
-// Sketch Registry
-const SKETCHES = {
-  'lissajous': LissajousSketch,
-  'pixelator': PixelatorSketch,
-};
-
-type SketchKey = keyof typeof SKETCHES;
+import CanvasSketch, { CanvasSketchHandle } from '@/components/canvas-sketch';
+import { SKETCHES, SKETCH_PARAMS, SketchKey, isSketchKey } from '@/lib/sketches';
+import { ParamControls } from '@/components/param-controls';
+import { PresetPanel } from '@/components/preset-panel';
+import { AudioPanel } from '@/components/audio-panel';
+import { PlotterPanel } from '@/components/plotter-panel';
+import { TransportBar } from '@/components/transport-bar';
+import { AudioMapping, AudioSource } from '@/lib/audio';
+import { Preset, persistableParams } from '@/lib/presets';
+import { getDefaultParams, sanitizeParams } from '@/lib/sketches/params';
+import { decodePermalink, encodePermalink } from '@/lib/permalink';
+import { ParamValue, ParamValues, Sketch } from '@/lib/sketches/types';
+
+import { describeRecorderState, useCanvasRecorder } from '@/lib/use-canvas-recorder';
+import { EXPORT_FORMATS, ExportFormat, getOutputSize } from '@/lib/export-formats';
+import { cn, download } from '@/lib/utils';
+import { sceneToPdf, sceneToSvg } from '@/lib/vector';
+import { ChevronDown, ArrowRightLeft, Dices, Link } from 'lucide-react';
+import { normalizeSeed, randomSeed } from '@/lib/random';
 
 // Preset Colors from Tokens just for the Sketch Canvas (Not UI)
 const COLORS = [
@@ -28,113 +31,213 @@ const COLORS = [
   { bg: '#BBBBBB', fg: '#0000ee', label: 'raw' },  // Light 8 (#BBBBBB)
 ];
 
+// Canvas formats, long side 1920 / short side 1080
+const SIZE_PRESETS = [
+  { label: '1:1', width: 1080, height: 1080 },
+  { label: '4:5', width: 1080, height: 1350 },
+  { label: '9:16', width: 1080, height: 1920 },
+  { label: '16:9', width: 1920, height: 1080 },
+];
+
+const FILENAMES: Record<SketchKey, string> = {
+  'lissajous': '0001_lissajous',
+  'pixelator': '0002_pixelator',
+};
+
 export default function Home() {
   const [activeSketch, setActiveSketch] = useState<SketchKey>('lissajous');
   const [theme, setTheme] = useState(COLORS[2]);
-  const [quality, setQuality] = useState<'hq' | '256kb'>('hq');
+  const [format, setFormat] = useState<ExportFormat>('mp4');
+  const [qualityByFormat, setQualityByFormat] = useState<Partial<Record<ExportFormat, number>>>({});
+  const [sizeMode, setSizeMode] = useState<'quality' | 'budget'>('quality');
+  const [budgetKb, setBudgetKb] = useState(256);
+  const formatSpec = EXPORT_FORMATS[format];
+  const quality = qualityByFormat[format] ?? formatSpec.quality.default;
+  // Byte budget needs a codec that can target a bitrate
+  const useBudget = sizeMode === 'budget' && !!formatSpec.bitrateArgs;
   const [resetKey, setResetKey] = useState(0);
   const [elapsed, setElapsed] = useState(0);
 
-  // Physics Params
-  const [stiffness, setStiffness] = useState(0.025);
-  const [damping, setDamping] = useState(0.283);
-  const [mass, setMass] = useState(1);
-  const [noBounce, setNoBounce] = useState(false);
-
-  // Timing Params (Constrained to 10s total)
-  const [steps, setSteps] = useState(8); // Fixed to 8
-  const [split, setSplit] = useState(0.45);
-
-  // Lissajous Params
-  const [lissajousMode, setLissajousMode] = useState<'classic' | 'harmonic' | 'table'>('classic');
-
-  // Pixelator Params
-  const [tiles, setTiles] = useState(40);
-  const [fitMode, setFitMode] = useState<'cover' | 'contain'>('cover');
-  const [zoom, setZoom] = useState(1);
-  const [skin, setSkin] = useState<'default' | 'minesweeper'>('default');
-  const [invert, setInvert] = useState(false);
-  const [thresholds, setThresholds] = useState<number[]>([51, 102, 153, 204]);
+  // Recording Options
+  const [duration, setDuration] = useState(10);
+  const [targetFps, setTargetFps] = useState(60);
+  const [size, setSize] = useState({ width: 1080, height: 1350 });
+  const [customSize, setCustomSize] = useState(false);
+  const sizePreset = customSize ? undefined : SIZE_PRESETS.find(p => p.width === size.width && p.height === size.height);
+  const [scale, setScale] = useState(1);
+  // Same seed + params = same frames
+  const [seed, setSeed] = useState(1);
+  // Where the realtime preview renders, exports always run on the main thread
+  const [renderMode, setRenderMode] = useState<'main' | 'worker'>('main');
+  // Realtime preview transport, recordings always run the full loop
+  const [playing, setPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const outputSize = getOutputSize(size.width, size.height, scale);
+
+  // Sketch Params (per sketch, only overrides of the schema defaults)
+  const [paramOverrides, setParamOverrides] = useState<Partial<Record<SketchKey, ParamValues>>>({});
 
   const [fps, setFps] = useState(0);
-  const [debugInfo, setDebugInfo] = useState<any>(null);
 
-  const SketchClass = SKETCHES[activeSketch];
-  // Force new instance when resetKey changes (allows hot-reloading logic or resetting state)
-  const sketch = useMemo(() => new SketchClass(), [activeSketch, resetKey]);
+  // Soundtrack + per sketch feature -> param mappings
+  const [audio, setAudio] = useState<AudioSource | null>(null);
+  const [audioMappings, setAudioMappings] = useState<Partial<Record<SketchKey, AudioMapping[]>>>({});
+  const activeMappings = audioMappings[activeSketch];
+
+  // New instance when switching sketches or when resetKey changes (allows
+  // hot-reloading logic or resetting state). Replaced while rendering, so
+  // the stale instance never reaches the canvas.
+  const [instance, setInstance] = useState(() => ({ key: activeSketch, resetKey, sketch: new SKETCHES[activeSketch]() as Sketch }));
+  if (instance.key !== activeSketch || instance.resetKey !== resetKey) {
+    setInstance({ key: activeSketch, resetKey, sketch: new SKETCHES[activeSketch]() });
+  }
+  const { sketch } = instance;
+
+  const paramValues = useMemo(
+    () => ({ ...getDefaultParams(sketch.params), ...paramOverrides[activeSketch] }),
+    [sketch, paramOverrides, activeSketch]
+  );
 
+  const handleAudioChange = (next: AudioSource | null) => {
+    audio?.close();
+    setAudio(next);
+  };
 
-  // Sync Pixelator Params
-  // Sync Pixelator Params
-  useEffect(() => {
-    if (sketch instanceof PixelatorSketch) {
-      sketch.cols = tiles;
-      sketch.tileTypes = 5;
-      sketch.fitMode = fitMode;
-      sketch.zoom = zoom;
-      sketch.skin = skin;
-      sketch.invert = invert;
-      sketch.thresholds = thresholds;
-    }
-  }, [sketch, tiles, fitMode, zoom, skin, invert, thresholds]);
+  const handleParamChange = (key: string, value: ParamValue) => {
+    setParamOverrides(prev => ({
+      ...prev,
+      [activeSketch]: { ...prev[activeSketch], [key]: value },
+    }));
+  };
 
-  // Sync physics params to sketch
-  useEffect(() => {
-    if (sketch instanceof LissajousSketch) {
-      sketch.stiffness = stiffness;
-      sketch.damping = damping;
-      sketch.mass = mass;
-
-      const stepDuration = 10 / steps;
-      const transitionDuration = stepDuration * split;
-      const holdDuration = stepDuration - transitionDuration;
-
-      sketch.holdDuration = holdDuration * 60;
-      sketch.transitionDuration = transitionDuration * 60;
-      sketch.mode = lissajousMode;
+  // Presets and permalinks replace the whole configuration, anything unset
+  // falls back to defaults. Params are validated against the target schema.
+  const applyConfiguration = (config: Omit<Preset, 'id' | 'name'>) => {
+    if (!isSketchKey(config.sketch)) return;
+    const key = config.sketch;
+    setActiveSketch(key);
+    setParamOverrides(prev => ({ ...prev, [key]: sanitizeParams(SKETCH_PARAMS[key], config.params) }));
+    if (config.theme) {
+      const { foreground: fg, background: bg } = config.theme;
+      setTheme(COLORS.find(c => c.fg.toLowerCase() === fg.toLowerCase() && c.bg.toLowerCase() === bg.toLowerCase()) ?? { bg, fg, label: 'custom' });
     }
-  }, [sketch, stiffness, damping, mass, steps, split, lissajousMode]);
+    if (config.seed !== undefined) setSeed(config.seed);
+  };
 
-  // Critical Damping Calculator
+  // Hydrate from a shared link on load, and when the hash changes
   useEffect(() => {
-    if (noBounce) {
-      // Critical Damping c = 2 * sqrt(k * m)
-      const critical = 2 * Math.sqrt(stiffness * mass);
-      // We do not clamp so we ensure no bounce even at high stiffness/mass
-      setDamping(critical);
+    const hydrate = () => {
+      const link = decodePermalink(window.location.hash);
+      if (!link?.sketch) return;
+      applyConfiguration({ sketch: link.sketch, params: link.params ?? {}, theme: link.theme, seed: link.seed });
+      if (link.format) {
+        const linkFormat = link.format;
+        setFormat(linkFormat);
+        if (link.quality !== undefined) setQualityByFormat(p => ({ ...p, [linkFormat]: link.quality }));
+      }
+    };
+    // Deferred so the first render matches the server markup
+    const id = requestAnimationFrame(hydrate);
+    window.addEventListener('hashchange', hydrate);
+    return () => {
+      cancelAnimationFrame(id);
+      window.removeEventListener('hashchange', hydrate);
+    };
+  }, []);
+
+  const [linkCopied, setLinkCopied] = useState(false);
+  const handleCopyLink = async () => {
+    const hash = encodePermalink({
+      sketch: activeSketch,
+      params: paramValues,
+      theme: { foreground: theme.fg, background: theme.bg },
+      seed,
+      format,
+      quality,
+    });
+    // replaceState doesn't fire hashchange, so this won't re-hydrate
+    window.history.replaceState(null, '', `#${hash}`);
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 1500);
+    } catch {
+      prompt('copy link', window.location.href);
     }
-  }, [stiffness, mass, noBounce]);
+  };
 
   const handleUpdate = (time: number, newFps: number) => {
-    setElapsed(time % 10);
+    setElapsed(time % duration);
     setFps(newFps);
-    if (sketch instanceof LissajousSketch) {
-      setDebugInfo(sketch.getDebugInfo());
-    }
   };
 
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const { startRecording, isRecording } = useCanvasRecorder(canvasRef);
+  const sketchRef = useRef<CanvasSketchHandle>(null);
+  const { state: recorder, startRecording, abort, isRecording, lastResult, encoder, retryLoad } = useCanvasRecorder(sketchRef);
+  const progress = describeRecorderState(recorder);
+  // Frame sequences are packaged without ffmpeg and WebCodecs capable formats
+  // can skip it. While the encoder is still loading the recorder waits for it,
+  // only a failed load blocks video exports.
+  const encoderBlocked = formatSpec.kind === 'video' && encoder.state === 'error' &&
+    (useBudget || !formatSpec.webCodecs || (!!audio && !!formatSpec.audio));
+
+  // Steps land on exact export frames, so they pause first
+  const handleStep = (frames: number) => {
+    setPlaying(false);
+    sketchRef.current?.stepFrames(frames).catch((e) => console.error("Frame step failed:", e));
+  };
 
-  // Helper for UI display
-  const stepDur = 10 / steps;
-  const transTime = stepDur * split;
-  const holdTime = stepDur - transTime;
+  const handleSeek = (time: number) => {
+    sketchRef.current?.seek(time).catch((e) => console.error("Seek failed:", e));
+  };
 
   const handleExport = () => {
-    if (isRecording) return;
+    if (isRecording || encoderBlocked) return;
+    // Fresh sketch instance, mounted in offline mode while recording
     setResetKey(prev => prev + 1);
 
-    // HQ = 25Mbps, 256kb ~ 350kbps target
-    const bitrate = quality === 'hq' ? 25000000 : 350000;
-
-    const filenameMap: Record<SketchKey, string> = {
-      'lissajous': '0001_lissajous.mp4',
-      'pixelator': '0002_pixelator.mp4',
-    };
-    const filename = filenameMap[activeSketch] || `${activeSketch}.mp4`;
+    // Quality = format knob (e.g. 25Mbps for MP4), budget = searched bitrate so the file fits in budgetKb
+    const maxBytes = useBudget ? budgetKb * 1024 : undefined;
+
+    const filename = FILENAMES[activeSketch] || activeSketch;
+
+    startRecording({
+      format,
+      quality,
+      maxBytes,
+      filename,
+      duration,
+      fps: targetFps,
+      width: size.width,
+      height: size.height,
+      scale,
+      audio: audio ? { data: audio.data, extension: audio.extension } : undefined,
+      metadata: {
+        sketch: activeSketch,
+        params: paramValues,
+        theme: { foreground: theme.fg, background: theme.bg },
+        duration,
+        seed,
+      },
+    });
+  };
 
-    setTimeout(() => startRecording(bitrate, filename), 150);
+  const [vectorError, setVectorError] = useState<string | null>(null);
+  // Current frame as SVG / PDF, for sketches that draw through a vector scene
+  const handleVectorExport = async (type: 'svg' | 'pdf') => {
+    setVectorError(null);
+    try {
+      const scene = await sketchRef.current?.scene();
+      if (!scene) return;
+      const filename = `${FILENAMES[activeSketch] || activeSketch}_${elapsed.toFixed(2)}s.${type}`;
+      download(
+        type === 'svg'
+          ? new Blob([sceneToSvg(scene)], { type: 'image/svg+xml' })
+          : new Blob([sceneToPdf(scene).buffer as ArrayBuffer], { type: 'application/pdf' }),
+        filename
+      );
+    } catch (e) {
+      setVectorError(e instanceof Error ? e.message : String(e));
+    }
   };
 
   return (
@@ -142,28 +245,59 @@ export default function Home() {
     <main className="w-screen h-screen bg-background text-text font-mono text-xs overflow-hidden flex selection:bg-accent selection:text-white">
       {/* Canvas Stage */}
       <div className="flex-1 flex items-center justify-center relative">
-        <div className="relative border border-border">
-          <CanvasSketch
-            key={resetKey}
-            ref={canvasRef}
-            sketch={sketch}
-            width={1080}
-            height={1350}
-            className="h-[60vh] w-auto aspect-[4/5]"
-            foregroundColor={theme.fg}
-            backgroundColor={theme.bg}
-            onUpdate={handleUpdate}
+        <div className="space-y-2">
+          <div className="relative border border-border">
+            <CanvasSketch
+              key={resetKey}
+              ref={sketchRef}
+              sketch={sketch}
+              offline={isRecording}
+              paused={!playing}
+              speed={speed}
+              fps={targetFps}
+              worker={renderMode === 'worker'}
+              sketchKey={activeSketch}
+              width={size.width}
+              height={size.height}
+              duration={duration}
+              seed={seed}
+              audio={audio}
+              audioMappings={activeMappings}
+              paramValues={paramValues}
+              className="w-auto"
+              // 60vh tall unless that overflows the stage next to the sidebar
+              style={{
+                aspectRatio: `${size.width} / ${size.height}`,
+                height: `min(60vh, calc((100vw - 24rem) * ${size.height / size.width}))`,
+              }}
+              foregroundColor={theme.fg}
+              backgroundColor={theme.bg}
+              onUpdate={handleUpdate}
+              onParamChange={handleParamChange}
+            />
+            {isRecording && (
+              <div className="fixed top-0 inset-x-0 w-full h-1 bg-[#00e]/20">
+                <div className="h-full bg-[#00e] transition-[width] duration-200" style={{ width: `${progress.progress * 100}%` }} />
+              </div>
+            )}
+          </div>
+          <TransportBar
+            playing={playing}
+            speed={speed}
+            time={elapsed}
+            duration={duration}
+            fps={targetFps}
+            disabled={isRecording}
+            onPlayingChange={setPlaying}
+            onSpeedChange={setSpeed}
+            onSeek={handleSeek}
+            onStep={handleStep}
           />
-          {isRecording && (
-            <div className="fixed top-0 inset-x-0 w-full h-1 bg-[#00e]/20">
-              <div className="h-full bg-[#00e] animate-[progress_25s_linear_forwards]" />
-            </div>
-          )}
         </div>
       </div>
 
       {/* Sidebar Controls - Brutalist / Minimal */}
-      <div className="max-w-xs w-full h-full p-8 space-y-8">
+      <div className="max-w-xs w-full h-full p-8 space-y-8 overflow-y-auto">
         {/* Sketch Selector */}
         <div className="space-y-2">
           <label className="text-text">sketch</label>
@@ -181,43 +315,35 @@ export default function Home() {
           </div>
         </div>
 
-        {/* --- TYPE / MODE / SKIN SELECTOR (Generic) --- */}
-        {activeSketch === 'lissajous' && (
-          <div className="space-y-2">
-            <label className="text-text">mode</label>
-            <div className="relative group">
-              <select
-                value={lissajousMode}
-                onChange={(e) => setLissajousMode(e.target.value as any)}
-                className="w-full text-text-strong p-2 rounded-none border border-border outline-none appearance-none hover:border-text-weak focus:border-text-strong transition-colors cursor-pointer"
-              >
-                <option value="classic">Classic</option>
-                <option value="harmonic">Harmonic</option>
-                <option value="table">Table</option>
-              </select>
-              <ChevronDown className="absolute right-2.5 top-1/2 -translate-y-1/2 opacity-50 w-4 h-4 text-text pointer-events-none" />
-            </div>
-          </div>
-        )}
+        <PresetPanel
+          sketch={activeSketch}
+          builtIns={sketch.presets}
+          current={{
+            sketch: activeSketch,
+            params: persistableParams(sketch.params, paramValues),
+            theme: { foreground: theme.fg, background: theme.bg },
+            seed,
+          }}
+          onLoad={applyConfiguration}
+        />
 
-        {activeSketch === 'pixelator' && (
-          <div className="space-y-2">
-            <label className="text-text">skin</label>
-            <div className="relative group">
-              <select
-                value={skin}
-                onChange={(e) => setSkin(e.target.value as any)}
-                className="w-full text-text-strong p-2 rounded-none border border-border outline-none appearance-none hover:border-text-weak focus:border-text-strong transition-colors cursor-pointer"
-              >
-                <option value="default">Default</option>
-                <option value="minesweeper">Minesweeper</option>
-              </select>
-              <ChevronDown className="absolute right-2.5 top-1/2 -translate-y-1/2 opacity-50 w-4 h-4 text-text pointer-events-none" />
-            </div>
-          </div>
-        )}
+        <button
+          onClick={handleCopyLink}
+          className="w-full py-1 flex items-center justify-center gap-2 text-xs border border-border uppercase transition-colors hover:bg-text-strong hover:text-text-inverted"
+        >
+          <Link className="w-3 h-3" />
+          {linkCopied ? 'copied' : 'copy link'}
+        </button>
 
-        {activeSketch === 'lissajous' && (
+        {/* Sketch Params (generated from the sketch schema) */}
+        <ParamControls
+          schema={(sketch.params ?? []).filter(def => !def.group)}
+          values={paramValues}
+          host={{ duration }}
+          onChange={handleParamChange}
+        />
+
+        {sketch.usesTheme && (
           <div className="space-y-2">
             <label className="text-text">palette</label>
             <div className="grid grid-cols-5 gap-2">
@@ -270,256 +396,364 @@ export default function Home() {
           </div>
         )}
 
-        {activeSketch === 'lissajous' && (
-          <div className="space-y-4">
-            <label className="text-text block">physics / elastic</label>
+        <ParamControls
+          schema={(sketch.params ?? []).filter(def => def.group)}
+          values={paramValues}
+          host={{ duration }}
+          onChange={handleParamChange}
+        />
+
+        <AudioPanel
+          audio={audio}
+          onAudioChange={handleAudioChange}
+          schema={sketch.params ?? []}
+          mappings={activeMappings ?? []}
+          onMappingsChange={(next) => setAudioMappings(prev => ({ ...prev, [activeSketch]: next }))}
+        />
+
+        {sketch.plotSources && (
+          <PlotterPanel
+            key={activeSketch}
+            sources={sketch.plotSources}
+            onGrab={async (source) => (await sketchRef.current?.plotPaths(source)) ?? []}
+            filename={FILENAMES[activeSketch] || activeSketch}
+          />
+        )}
 
-            <div className="space-y-1">
-              <div className="flex justify-between">
-                <span>stiffness</span>
-                <span className="text-text-main">{stiffness.toFixed(3)}</span>
-              </div>
+        {/* Stats / Info */}
+        <div className="mt-auto space-y-3 text-text">
+          <div className="flex justify-between">
+            <span>dim</span>
+            <span className="text-text-main">
+              {size.width}x{size.height}
+              {scale !== 1 && ` → ${outputSize.width}x${outputSize.height}`}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span>fps</span>
+            <span className="text-text-main">{fps} / {targetFps}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>len</span>
+            <span className="text-text-main">{elapsed.toFixed(1)}s / {duration}s</span>
+          </div>
+
+          <div className="flex justify-between items-center">
+            <span>seed</span>
+            <div className="flex items-center gap-1">
               <input
-                type="range"
-                min="0.001"
-                max="0.2"
-                step="0.001"
-                value={stiffness}
-                onChange={(e) => setStiffness(parseFloat(e.target.value))}
-                className="w-full accent-text-strong cursor-grab active:cursor-grabbing"
+                type="number"
+                min={0}
+                value={seed}
+                onChange={(e) => setSeed(normalizeSeed(parseInt(e.target.value) || 0))}
+                className="w-20 px-1 py-0.5 text-right text-text-strong border border-border outline-none focus:border-text-strong"
               />
+              <button
+                onClick={() => setSeed(randomSeed())}
+                className="h-6 w-6 flex items-center justify-center border border-border text-text hover:bg-text-strong hover:text-text-inverted transition-colors"
+                title="random seed"
+              >
+                <Dices className="w-3 h-3" />
+              </button>
             </div>
+          </div>
 
-            <div className="space-y-1">
-              <div className="flex justify-between items-center">
-                <span>damping</span>
-                <span className="text-text-main">{damping.toFixed(3)}</span>
-              </div>
+          <div className="flex justify-between items-center">
+            <span>duration</span>
+            <div className="flex items-center gap-1">
+              <input
+                type="number"
+                min={1}
+                max={60}
+                value={duration}
+                onChange={(e) => setDuration(Math.min(60, Math.max(1, parseInt(e.target.value) || 10)))}
+                className="w-12 px-1 py-0.5 text-right text-text-strong border border-border outline-none focus:border-text-strong"
+              />
+              <span>s</span>
+            </div>
+          </div>
 
+          <div className="flex justify-between items-center">
+            <span>rate</span>
+            <div className="flex border border-border rounded-sm overflow-hidden">
+              {[24, 30, 60].map(rate => (
+                <button
+                  key={rate}
+                  onClick={() => setTargetFps(rate)}
+                  className={cn("px-2 py-0.5 text-xs transition-colors", targetFps === rate ? 'bg-text-strong text-text-inverted' : 'hover:bg-background-weak')}
+                >
+                  {rate}
+                </button>
+              ))}
+            </div>
+          </div>
 
-              <div className="flex items-center gap-2">
+          <div className="flex justify-between items-center">
+            <span>format</span>
+            <div className="flex border border-border rounded-sm overflow-hidden">
+              {SIZE_PRESETS.map(preset => (
+                <button
+                  key={preset.label}
+                  onClick={() => {
+                    setCustomSize(false);
+                    setSize({ width: preset.width, height: preset.height });
+                  }}
+                  className={cn("px-1.5 py-0.5 text-xs transition-colors", sizePreset === preset ? 'bg-text-strong text-text-inverted' : 'hover:bg-background-weak')}
+                >
+                  {preset.label}
+                </button>
+              ))}
+              <button
+                onClick={() => setCustomSize(true)}
+                className={cn("px-1.5 py-0.5 text-xs transition-colors", !sizePreset ? 'bg-text-strong text-text-inverted' : 'hover:bg-background-weak')}
+              >
+                custom
+              </button>
+            </div>
+          </div>
+
+          {!sizePreset && (
+            <div className="flex justify-between items-center">
+              <span>size</span>
+              <div className="flex items-center gap-1">
                 <input
-                  type="range"
-                  min="0.001"
-                  max="2.0"
-                  step="0.001"
-                  disabled={noBounce}
-                  value={damping}
-                  onChange={(e) => setDamping(parseFloat(e.target.value))}
-                  className={cn(
-                    "w-full accent-text-strong cursor-grab active:cursor-grabbing",
-                    noBounce && "opacity-50 cursor-not-allowed"
-                  )}
+                  type="number"
+                  min={64}
+                  max={4096}
+                  value={size.width}
+                  onChange={(e) => setSize(p => ({ ...p, width: Math.min(4096, Math.max(64, parseInt(e.target.value) || p.width)) }))}
+                  className="w-14 px-1 py-0.5 text-right text-text-strong border border-border outline-none focus:border-text-strong"
+                />
+                <span>x</span>
+                <input
+                  type="number"
+                  min={64}
+                  max={4096}
+                  value={size.height}
+                  onChange={(e) => setSize(p => ({ ...p, height: Math.min(4096, Math.max(64, parseInt(e.target.value) || p.height)) }))}
+                  className="w-14 px-1 py-0.5 text-right text-text-strong border border-border outline-none focus:border-text-strong"
                 />
               </div>
             </div>
+          )}
 
-            <div className="space-y-1">
-              <div className="flex justify-between">
-                <span>mass</span>
-                <span className="text-text-main">{mass.toFixed(1)}</span>
-              </div>
-              <input
-                type="range"
-                min="0.1"
-                max="5"
-                step="0.1"
-                value={mass}
-                onChange={(e) => setMass(parseFloat(e.target.value))}
-                className="w-full accent-text-strong cursor-grab active:cursor-grabbing"
-              />
+          <div className="flex justify-between items-center">
+            <span>scale</span>
+            <div className="flex border border-border rounded-sm overflow-hidden">
+              {[0.5, 1, 2].map(factor => (
+                <button
+                  key={factor}
+                  onClick={() => setScale(factor)}
+                  className={cn("px-2 py-0.5 text-xs transition-colors", scale === factor ? 'bg-text-strong text-text-inverted' : 'hover:bg-background-weak')}
+                >
+                  {factor}x
+                </button>
+              ))}
             </div>
+          </div>
 
-            <div className="pt-4 space-y-4">
-              <label className="text-text block">timing (10s total)</label>
-
-              <div className="space-y-1">
-                <div className="flex justify-between">
-                  <span>move ratio</span>
-                  <span className="text-text-main">{(split * 100).toFixed(0)}%</span>
-                </div>
-                <input
-                  type="range"
-                  min="0.0"
-                  max="1.0"
-                  step="0.05"
-                  value={split}
-                  onChange={(e) => setSplit(parseFloat(e.target.value))}
-                  className="w-full accent-text-strong cursor-grab active:cursor-grabbing"
-                />
-                <div className="flex justify-between text-xs text-text-weak pt-1">
-                  <span>move: {transTime.toFixed(2)}s</span>
-                  <span>hold: {holdTime.toFixed(2)}s</span>
-                </div>
+          <div className="flex justify-between items-center">
+            <span>render</span>
+            <div className="flex items-center gap-2">
+              {renderMode === 'worker' && (sketch.requiresDom || audio) && (
+                <span className="text-text-weak" title={sketch.requiresDom ? 'sketch needs the DOM' : 'audio plays on the main thread'}>main</span>
+              )}
+              <div className="flex border border-border rounded-sm overflow-hidden">
+                {(['main', 'worker'] as const).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => setRenderMode(mode)}
+                    className={cn("px-2 py-0.5 text-xs transition-colors", renderMode === mode ? 'bg-text-strong text-text-inverted' : 'hover:bg-background-weak')}
+                  >
+                    {mode}
+                  </button>
+                ))}
               </div>
             </div>
           </div>
-        )}
-
-        {activeSketch === 'pixelator' && (
-          <div className="space-y-4">
-            {/* Pixelator specific controls */}
-            <div className="space-y-4 pt-4">
-              <label className="text-text block">source</label>
-              <input
-                type="file"
-                accept="video/*"
-                onChange={(e) => {
-                  const file = e.target.files?.[0];
-                  if (file && sketch instanceof PixelatorSketch) {
-                    const url = URL.createObjectURL(file);
-                    sketch.setVideoUrl(url);
-                  }
-                }}
-              />
-
 
-
-              <button
-                onClick={() => setInvert(!invert)}
-                className={cn(
-                  "w-full py-1 text-xs border border-border uppercase transition-colors",
-                  invert ? "bg-text-strong text-text-inverted" : "hover:bg-background-weak"
-                )}
-              >
-                Invert Tiles
-              </button>
-
-              <div className="space-y-2 pt-2">
-                <div className="flex justify-between items-center">
-                  <span className="text-xs text-text uppercase">Luminance Ranges</span>
-                </div>
-                <MultiRangeSlider
-                  min={0}
-                  max={255}
-                  value={thresholds}
-                  onChange={setThresholds}
-                />
+          <div className="flex justify-between items-center">
+            <span>encoder</span>
+            {encoder.state === 'error' ? (
+              <div className="flex items-center gap-2">
+                <span className="text-red-700" title={encoder.message}>failed</span>
+                <button
+                  onClick={retryLoad}
+                  className="px-2 py-0.5 text-xs border border-border transition-colors hover:bg-text-strong hover:text-text-inverted"
+                >
+                  retry
+                </button>
               </div>
+            ) : (
+              <span className="text-text-main">{encoder.state === 'ready' ? 'ready' : 'loading...'}</span>
+            )}
+          </div>
+
+          <div className="flex justify-between items-center py-1">
+            <span>format</span>
+            <div className="flex border border-border rounded-sm overflow-hidden">
+              {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(key => (
+                <button
+                  key={key}
+                  onClick={() => setFormat(key)}
+                  className={cn("px-1.5 py-0.5 text-xs transition-colors", format === key ? 'bg-text-strong text-text-inverted' : 'hover:bg-background-weak')}
+                >
+                  {EXPORT_FORMATS[key].label}
+                </button>
+              ))}
+            </div>
+          </div>
 
+          {formatSpec.bitrateArgs && (
+            <div className="flex justify-between items-center py-1">
+              <span>target</span>
               <div className="flex border border-border rounded-sm overflow-hidden">
                 <button
-                  onClick={() => setFitMode('cover')}
-                  className={cn("flex-1 py-1 text-xs transition-colors uppercase", fitMode === 'cover' ? 'bg-text-strong text-text-inverted' : 'hover:bg-background-weak')}
+                  onClick={() => setSizeMode('quality')}
+                  className={cn("px-2 py-0.5 text-xs transition-colors", sizeMode === 'quality' ? 'bg-text-strong text-text-inverted' : 'hover:bg-background-weak')}
                 >
-                  Cover (Fill)
+                  HQ
                 </button>
                 <button
-                  onClick={() => setFitMode('contain')}
-                  className={cn("flex-1 py-1 text-xs transition-colors uppercase", fitMode === 'contain' ? 'bg-text-strong text-text-inverted' : 'hover:bg-background-weak')}
+                  onClick={() => setSizeMode('budget')}
+                  className={cn("px-2 py-0.5 text-xs transition-colors", sizeMode === 'budget' ? 'bg-text-strong text-text-inverted' : 'hover:bg-background-weak')}
                 >
-                  Fit (Full)
+                  {budgetKb}kb
                 </button>
               </div>
+            </div>
+          )}
 
-              <div className="space-y-1">
-                <div className="flex justify-between items-center text-xs text-text uppercase">
-                  <label>Zoom</label>
-                  <span>{zoom.toFixed(1)}x</span>
-                </div>
+          {useBudget ? (
+            <div className="flex justify-between items-center">
+              <span>budget</span>
+              <div className="flex items-center gap-1">
                 <input
-                  type="range"
-                  min="0.5"
-                  max="3"
-                  step="0.1"
-                  value={zoom}
-                  onChange={(e) => setZoom(parseFloat(e.target.value))}
-                  className="w-full accent-text-strong cursor-grab active:cursor-grabbing"
+                  type="number"
+                  min={16}
+                  step={16}
+                  value={budgetKb}
+                  onChange={(e) => setBudgetKb(Math.max(16, parseInt(e.target.value) || 256))}
+                  className="w-16 px-1 py-0.5 text-right text-text-strong border border-border outline-none focus:border-text-strong"
                 />
+                <span>KB</span>
               </div>
             </div>
-
+          ) : (
             <div className="space-y-1">
               <div className="flex justify-between">
-                <span>resolution (cols)</span>
-                <span className="text-text-main">{tiles}</span>
+                <span>{formatSpec.quality.label}</span>
+                <span className="text-text-main">{formatSpec.quality.format(quality)}</span>
               </div>
               <input
                 type="range"
-                min="10"
-                max="200"
-                step="1"
-                value={tiles}
-                onChange={(e) => setTiles(parseInt(e.target.value))}
+                min={formatSpec.quality.min}
+                max={formatSpec.quality.max}
+                step={formatSpec.quality.step}
+                value={quality}
+                onChange={(e) => setQualityByFormat(p => ({ ...p, [format]: parseFloat(e.target.value) }))}
                 className="w-full accent-text-strong cursor-grab active:cursor-grabbing"
               />
             </div>
-          </div>
-        )}
-
-        {/* Stats / Info */}
-        <div className="mt-auto space-y-3 text-text">
-          <div className="flex justify-between">
-            <span>dim</span>
-            <span className="text-text-main">1080x1350</span>
-          </div>
-          <div className="flex justify-between">
-            <span>fps</span>
-            <span className="text-text-main">{fps} / 60</span>
-          </div>
-          <div className="flex justify-between">
-            <span>len</span>
-            <span className="text-text-main">{elapsed.toFixed(1)}s / 10s</span>
-          </div>
-
-          <div className="flex justify-between items-center py-1">
-            <span>quality</span>
-            <div className="flex border border-border rounded-sm overflow-hidden">
-              <button
-                onClick={() => setQuality('hq')}
-                className={cn("px-2 py-0.5 text-xs transition-colors", quality === 'hq' ? 'bg-text-strong text-text-inverted' : 'hover:bg-background-weak')}
-              >
-                HQ
-              </button>
-              <button
-                onClick={() => setQuality('256kb')}
-                className={cn("px-2 py-0.5 text-xs transition-colors", quality === '256kb' ? 'bg-text-strong text-text-inverted' : 'hover:bg-background-weak')}
-              >
-                256kb
-              </button>
-            </div>
-          </div>
+          )}
 
           <div className="flex justify-between">
             <span>est. size</span>
             <div className="text-right">
               <span className="text-text-main block">
-                {quality === 'hq'
-                  ? `~${(25000000 * 10 / 8 / 1024 / 1024).toFixed(1)} MB`
-                  : `~${(350000 * 10 / 8 / 1024 / 1024).toFixed(2)} MB`
+                {useBudget
+                  ? `≤ ${budgetKb} KB`
+                  : formatSpec.estimateSize
+                    ? `~${(formatSpec.estimateSize(quality, duration) / 1024 / 1024).toFixed(1)} MB`
+                    : 'varies'
                 }
               </span>
               <span className="text-[10px] text-text-weak block">
-                {quality === 'hq' ? 'at 25 Mbps' : 'at 350 Kbps'}
+                {useBudget ? 'bitrate search' : `${formatSpec.quality.label} ${formatSpec.quality.format(quality)}`}
               </span>
             </div>
           </div>
 
+          {(isRecording || recorder.phase === 'failed') && (
+            <div className="flex justify-between">
+              <span>status</span>
+              <div className="text-right">
+                <span className={cn("block", recorder.phase === 'failed' && recorder.error.reason !== 'aborted' ? "text-red-700" : "text-text-main")}>
+                  {progress.label}
+                </span>
+                {recorder.phase === 'failed' && recorder.error.reason !== 'aborted' && (
+                  <span className="text-[10px] text-text-weak block">{recorder.error.message}</span>
+                )}
+              </div>
+            </div>
+          )}
+
+          {lastResult && (
+            <div className="flex justify-between">
+              <span>last</span>
+              <div className="text-right">
+                <span className="text-text-main block">{(lastResult.size / 1024).toFixed(1)} KB</span>
+                <span className="text-[10px] text-text-weak block">via {lastResult.backend}</span>
+                {lastResult.attempts.length > 0 && (
+                  <span className="text-[10px] text-text-weak block">
+                    {lastResult.attempts.length} attempt{lastResult.attempts.length > 1 ? 's' : ''}
+                  </span>
+                )}
+                {lastResult.attempts.length > 1 && lastResult.attempts.map((a, i) => (
+                  <span key={i} className="text-[10px] text-text-weak block">
+                    {(a.bitrate / 1000).toFixed(0)} Kbps → {(a.size / 1024).toFixed(1)} KB
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
 
         </div>
 
         {/* Action */}
-        <button
-          onClick={handleExport}
-          disabled={isRecording}
-          className={cn(
-            "w-full h-10 mt-auto border text-center transition-all uppercase tracking-widest text-xs hover:bg-text-strong hover:text-text-inverted",
-            isRecording
-              ? "border-red-900 text-red-700 cursor-not-allowed bg-red-50"
-              : "border-border text-text-strong bg-background-weak"
+        <div className="mt-auto space-y-2">
+          {isRecording ? (
+            <button
+              onClick={abort}
+              className="w-full h-10 border text-center transition-all uppercase tracking-widest text-xs border-red-900 text-red-700 bg-red-50 hover:bg-red-700 hover:text-text-inverted"
+            >
+              cancel · {progress.label}
+            </button>
+          ) : (
+            <button
+              onClick={handleExport}
+              disabled={encoderBlocked}
+              className={cn(
+                "w-full h-10 border text-center transition-all uppercase tracking-widest text-xs hover:bg-text-strong hover:text-text-inverted",
+                "border-border text-text-strong bg-background-weak",
+                encoderBlocked && "opacity-50 cursor-not-allowed"
+              )}
+            >
+              {encoderBlocked ? 'encoder unavailable' : `export ${formatSpec.label}${useBudget ? ` ${budgetKb}kb` : ''}`}
+            </button>
           )}
-        >
-          {isRecording ? 'recording...' : `export ${quality === 'hq' ? 'HQ' : '256kb'}`}
-        </button>
 
-      </div>
+          {sketch.getScene && !isRecording && (
+            <div className="flex border border-border rounded-sm overflow-hidden">
+              {(['svg', 'pdf'] as const).map(type => (
+                <button
+                  key={type}
+                  onClick={() => handleVectorExport(type)}
+                  className="flex-1 py-1 text-xs transition-colors uppercase hover:bg-background-weak"
+                  title="current frame as vector"
+                >
+                  frame {type}
+                </button>
+              ))}
+            </div>
+          )}
+          {vectorError && !isRecording && (
+            <span className="text-[10px] text-red-700 block">{vectorError}</span>
+          )}
+        </div>
 
-      <style jsx global>{`
-          @keyframes progress {
-              from { width: 0%; }
-              to { width: 100%; }
-          }
-      `}</style>
+      </div>
     </main >
   );
 }
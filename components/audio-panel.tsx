@@ -0,0 +1,143 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, Plus, X } from 'lucide-react';
+import { AUDIO_FEATURES, AudioFeature, AudioMapping, AudioSource } from '@/lib/audio';
+import { NumberParamDef, ParamSchema } from '@/lib/sketches/types';
+import { cn } from '@/lib/utils';
+
+interface AudioPanelProps {
+  audio: AudioSource | null;
+  onAudioChange: (audio: AudioSource | null) => void;
+  schema: ParamSchema;
+  mappings: AudioMapping[];
+  onMappingsChange: (mappings: AudioMapping[]) => void;
+}
+
+const selectClass = "w-full text-text-strong px-1 py-0.5 rounded-none border border-border outline-none appearance-none hover:border-text-weak focus:border-text-strong transition-colors cursor-pointer";
+
+// Soundtrack picker plus feature -> param mappings (number params only)
+export function AudioPanel({ audio, onAudioChange, schema, mappings, onMappingsChange }: AudioPanelProps) {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const targets = schema.filter((def): def is NumberParamDef => def.type === 'number');
+
+  const handleFile = async (file: File) => {
+    setLoading(true);
+    setError(null);
+    try {
+      onAudioChange(await AudioSource.fromFile(file));
+    } catch (e) {
+      console.error("Audio decode failed:", e);
+      setError('could not decode file');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const update = (index: number, patch: Partial<AudioMapping>) => {
+    onMappingsChange(mappings.map((m, i) => i === index ? { ...m, ...patch } : m));
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="text-text block">audio</label>
+
+      {audio ? (
+        <div className="flex justify-between items-center gap-2">
+          <span className="truncate text-text-main" title={audio.name}>{audio.name}</span>
+          <div className="flex items-center gap-2">
+            <span className="text-text-weak">{audio.duration.toFixed(1)}s</span>
+            <button
+              onClick={() => onAudioChange(null)}
+              className="h-6 w-6 flex items-center justify-center border border-border text-text hover:bg-text-strong hover:text-text-inverted transition-colors"
+              title="remove audio"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+        </div>
+      ) : (
+        <input
+          type="file"
+          accept="audio/*"
+          disabled={loading}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = '';
+          }}
+        />
+      )}
+      {loading && <div className="text-text-weak">decoding...</div>}
+      {error && <div className="text-red-700">{error}</div>}
+
+      {audio && (
+        <div className="space-y-2 pt-1">
+          {mappings.map((mapping, i) => (
+            <div key={i} className="space-y-1">
+              <div className="flex gap-1 items-center">
+                <div className="relative flex-1">
+                  <select
+                    value={mapping.feature}
+                    onChange={(e) => update(i, { feature: e.target.value as AudioFeature })}
+                    className={selectClass}
+                  >
+                    {AUDIO_FEATURES.map(feature => (
+                      <option key={feature} value={feature}>{feature}</option>
+                    ))}
+                  </select>
+                  <ChevronDown className="absolute right-1 top-1/2 -translate-y-1/2 opacity-50 w-3 h-3 text-text pointer-events-none" />
+                </div>
+                <span>→</span>
+                <div className="relative flex-1">
+                  <select
+                    value={mapping.key}
+                    onChange={(e) => update(i, { key: e.target.value })}
+                    className={selectClass}
+                  >
+                    {targets.map(def => (
+                      <option key={def.key} value={def.key}>{def.label}</option>
+                    ))}
+                  </select>
+                  <ChevronDown className="absolute right-1 top-1/2 -translate-y-1/2 opacity-50 w-3 h-3 text-text pointer-events-none" />
+                </div>
+                <button
+                  onClick={() => onMappingsChange(mappings.filter((_, j) => j !== i))}
+                  className="h-6 w-6 flex items-center justify-center text-text hover:bg-text-strong hover:text-text-inverted transition-colors"
+                  title="remove mapping"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+              <div className="flex items-center gap-2">
+                <input
+                  type="range"
+                  min={-1}
+                  max={1}
+                  step={0.01}
+                  value={mapping.amount}
+                  onChange={(e) => update(i, { amount: parseFloat(e.target.value) })}
+                  className="flex-1 accent-text-strong cursor-grab active:cursor-grabbing"
+                />
+                <span className="w-10 text-right text-text-main">{mapping.amount.toFixed(2)}</span>
+              </div>
+            </div>
+          ))}
+
+          <button
+            onClick={() => onMappingsChange([...mappings, { key: targets[0].key, feature: 'bass', amount: 0.25 }])}
+            disabled={targets.length === 0}
+            className={cn(
+              "w-full py-1 flex items-center justify-center gap-1 text-xs border border-border uppercase transition-colors hover:bg-background-weak",
+              targets.length === 0 && "opacity-50 cursor-not-allowed"
+            )}
+          >
+            <Plus className="w-3 h-3" />
+            mapping
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,45 +1,218 @@
-
 'use client';
 
 import { useEffect, useRef, useImperativeHandle, forwardRef } from 'react';
-import { Sketch } from '@/lib/sketches/types';
+import { ParamValue, ParamValues, Sketch, SketchKeyEvent, SketchPointerEvent } from '@/lib/sketches/types';
+import { applyParams } from '@/lib/sketches/params';
+import type { SketchWorkerInput, SketchWorkerRequest, SketchWorkerResponse } from '@/lib/sketch-worker';
+import { SeekTarget, SketchRunner } from '@/lib/sketch-runner';
+import type { VectorScene } from '@/lib/vector';
+import type { PlotPath } from '@/lib/plotter';
+import { AudioMapping, AudioSource, modulateParams } from '@/lib/audio';
 import { cn } from '@/lib/utils';
 
 // Standardized props for all sketches
 interface CanvasSketchProps {
   sketch: Sketch;
   className?: string;
+  style?: React.CSSProperties;
   width?: number; // Internal resolution width
   height?: number; // Internal resolution height
+  duration?: number; // Loop length in seconds
+  seed?: number; // Seeds ctx.random
+  // Soundtrack analysed into ctx.audio, played back in realtime mode
+  audio?: AudioSource | null;
+  // Params driven by audio features, on top of paramValues
+  audioMappings?: AudioMapping[];
+  paramValues?: ParamValues;
   foregroundColor?: string;
   backgroundColor?: string;
+  // Offline mode: no requestAnimationFrame loop, the host steps frames via the ref
+  offline?: boolean;
+  // Realtime transport: frozen on the current frame while paused, sketch
+  // time runs at `speed` x the wall clock
+  paused?: boolean;
+  speed?: number;
+  fps?: number; // Frame rate seeks replay at, match the export's
+  // Worker mode: render a fresh instance of the registry sketch `sketchKey` on
+  // an OffscreenCanvas in a worker. Falls back to the main thread for offline
+  // runs, audio, sketches that require the DOM and browsers without support.
+  worker?: boolean;
+  sketchKey?: string;
   onUpdate?: (time: number, fps: number) => void;
+  // A sketch changed one of its params from input (see Sketch.emitParam)
+  onParamChange?: (key: string, value: ParamValue) => void;
+}
+
+// Imperative API exposed through the forwarded ref
+export interface CanvasSketchHandle {
+  canvas: HTMLCanvasElement | null;
+  // True once an offline run is set up and step() can be called
+  readonly offline: boolean;
+  // Offline mode only: render frame N at time N * deltaTime, then advance to N + 1
+  step(deltaTime: number): Promise<void>;
+  // Realtime only: show the frame the export has at `time` (wrapped into the loop)
+  seek(time: number): Promise<void>;
+  // Realtime only: move by whole frames at the seek frame rate, e.g. -1 / +1
+  stepFrames(frames: number): Promise<void>;
+  // Snapshot of the current canvas contents
+  capture(type?: string): Promise<Blob>;
+  // Vector version of the current frame, null if the sketch can't build one
+  scene(): Promise<VectorScene | null>;
+  // Plotter polylines for one of sketch.plotSources, from the current state
+  plotPaths(source: string): Promise<PlotPath[]>;
 }
 
-const CanvasSketch = forwardRef<HTMLCanvasElement, CanvasSketchProps>(
-  ({ sketch, className, width = 1080, height = 1350, foregroundColor, backgroundColor, onUpdate }, ref) => {
+// Map client coordinates to canvas pixels. The canvas is drawn with
+// object-contain, so the content is letterboxed inside the element box.
+function toSketchSpace(canvas: HTMLCanvasElement, clientX: number, clientY: number) {
+  const rect = canvas.getBoundingClientRect();
+  const scale = Math.min(rect.width / canvas.width, rect.height / canvas.height) || 1;
+  const offsetX = (rect.width - canvas.width * scale) / 2;
+  const offsetY = (rect.height - canvas.height * scale) / 2;
+  return {
+    x: (clientX - rect.left - offsetX) / scale,
+    y: (clientY - rect.top - offsetY) / scale,
+  };
+}
+
+const NO_MAPPINGS: AudioMapping[] = [];
+const NO_VALUES: ParamValues = {};
+
+const supportsOffscreen = () =>
+  typeof HTMLCanvasElement !== 'undefined' && 'transferControlToOffscreen' in HTMLCanvasElement.prototype;
+
+const modifiers = (e: MouseEvent | KeyboardEvent) => ({
+  shiftKey: e.shiftKey,
+  altKey: e.altKey,
+  ctrlKey: e.ctrlKey,
+  metaKey: e.metaKey,
+});
+
+const CanvasSketch = forwardRef<CanvasSketchHandle, CanvasSketchProps>(
+  ({ sketch, className, style, width = 1080, height = 1350, duration = 10, seed = 0, audio = null, audioMappings = NO_MAPPINGS, paramValues = NO_VALUES, foregroundColor, backgroundColor, offline = false, paused = false, speed = 1, fps = 60, worker = false, sketchKey, onUpdate, onParamChange }, ref) => {
     const internalCanvasRef = useRef<HTMLCanvasElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
+    const stepRef = useRef<((deltaTime: number) => Promise<void>) | null>(null);
+    const runnerRef = useRef<SketchRunner | null>(null);
+    // Size changes resize the running sketch instead of restarting it
+    const sizeRef = useRef({ width, height });
+    // Read when a run starts, pushed to the running one on change
+    const transportRef = useRef({ playing: !paused, speed, fps });
+    // Read every frame, kept out of the render loop deps so edits don't restart the sketch
+    const modulationRef = useRef({ mappings: audioMappings, values: paramValues, applied: new Map<string, number>() });
+    const workerRef = useRef<Worker | null>(null);
+    // Where the last realtime run of a sketch was, restarts of the same
+    // instance (seed, palette) carry on from there
+    const resumeRef = useRef<{ sketch: Sketch; time: number } | null>(null);
+    const onUpdateRef = useRef(onUpdate);
+    const onParamChangeRef = useRef(onParamChange);
+    const workerActive = worker && !!sketchKey && !sketch.requiresDom && !offline && !audio && supportsOffscreen();
+
+    useEffect(() => {
+      modulationRef.current = { mappings: audioMappings, values: paramValues, applied: new Map() };
+    }, [audioMappings, paramValues]);
+
+    useEffect(() => {
+      onUpdateRef.current = onUpdate;
+      onParamChangeRef.current = onParamChange;
+    }, [onUpdate, onParamChange]);
+
+    useEffect(() => {
+      sketch.emitParam = (key, value) => onParamChangeRef.current?.(key, value);
+      return () => {
+        sketch.emitParam = undefined;
+      };
+    }, [sketch]);
 
-    useImperativeHandle(ref, () => internalCanvasRef.current!);
+    useEffect(() => {
+      transportRef.current = { playing: !paused, speed, fps };
+      runnerRef.current?.setTransport(transportRef.current);
+      if (workerRef.current) post(workerRef.current, { type: 'transport', transport: transportRef.current });
+    }, [paused, speed, fps, workerActive, sketchKey]);
 
+    // Edited params reach the running sketch (mapping changes too, so unmapped
+    // params drop back to their base value) and invalidate the states cached
+    // for seeking
     useEffect(() => {
+      applyParams(sketch, paramValues);
+      runnerRef.current?.invalidate();
+    }, [sketch, paramValues, audioMappings]);
+
+    const seek = async (target: SeekTarget) => {
+      const worker = workerRef.current;
+      if (worker) {
+        try {
+          await request(worker, { type: 'seek', id: nextRequestId++, target });
+        } catch (e) {
+          // Superseded: the worker was replaced (sketch or mode switch) mid-seek
+          if (workerRef.current !== worker) return;
+          throw e;
+        }
+        return;
+      }
+      await runnerRef.current?.seek(target);
+    };
+
+    useImperativeHandle(ref, () => ({
+      get canvas() {
+        return internalCanvasRef.current;
+      },
+      get offline() {
+        return !!stepRef.current;
+      },
+      step: async (deltaTime: number) => {
+        if (!stepRef.current) throw new Error('CanvasSketch is not in offline mode');
+        await stepRef.current(deltaTime);
+      },
+      seek: (time: number) => seek({ time }),
+      stepFrames: (frames: number) => seek({ frames }),
+      capture: async (type = 'image/png') => {
+        // A transferred canvas can only be read back by the worker
+        if (workerRef.current) {
+          const reply = await request(workerRef.current, { type: 'capture', id: nextRequestId++, mimeType: type });
+          if (!reply.blob) throw new Error(reply.error ?? 'Canvas capture failed');
+          return reply.blob;
+        }
+        return new Promise<Blob>((resolve, reject) => {
+          const canvas = internalCanvasRef.current;
+          if (!canvas) return reject(new Error('Canvas not mounted'));
+          canvas.toBlob((blob) => blob ? resolve(blob) : reject(new Error('Canvas capture failed')), type);
+        });
+      },
+      // In worker mode the worker's instance is the one that's animating
+      scene: async () => {
+        if (workerRef.current) return (await request(workerRef.current, { type: 'scene', id: nextRequestId++ })).scene;
+        return sketch.getScene?.() ?? null;
+      },
+      plotPaths: async (source: string) => {
+        if (workerRef.current) return (await request(workerRef.current, { type: 'plot', id: nextRequestId++, source })).paths;
+        return sketch.getPlotPaths?.(source) ?? [];
+      },
+    }), [sketch]);
+
+    // Offline runs have no runner here and keep the size they started with
+    useEffect(() => {
+      sizeRef.current = { width, height };
       const canvas = internalCanvasRef.current;
-      if (!canvas) return;
+      const runner = runnerRef.current;
+      if (!canvas || !runner || (canvas.width === width && canvas.height === height)) return;
+      canvas.width = width;
+      canvas.height = height;
+      runner.resize(width, height);
+    }, [width, height]);
+
+    useEffect(() => {
+      const canvas = internalCanvasRef.current;
+      if (!canvas || workerActive) return;
 
       const ctx = canvas.getContext('2d');
       if (!ctx) return;
 
       // Internal Resolution
+      const { width, height } = sizeRef.current;
       canvas.width = width;
       canvas.height = height;
 
-      // Render loop state
-      let animationFrameId: number;
-      let startTime = performance.now();
-      let lastTime = startTime;
-      let frameCount = 0;
-
       // Resolve theme colors
       const getTheme = () => {
         const getCssVar = (name: string) => {
@@ -52,48 +225,203 @@ const CanvasSketch = forwardRef<HTMLCanvasElement, CanvasSketchProps>(
         };
       };
 
-      // Setup
-      sketch.setup({
+      const runner = new SketchRunner({
+        sketch,
         ctx,
         width,
         height,
-        time: 0,
-        deltaTime: 0,
-        frame: 0,
-        theme: getTheme()
+        duration,
+        seed,
+        transport: offline ? undefined : transportRef.current,
+        theme: getTheme,
+        // Per-run analysis: AnalyserNode in realtime, decoded samples offline
+        analyzer: audio?.createAnalyzer(offline) ?? null,
+        createReplayAnalyzer: audio ? () => audio.createAnalyzer(true) : undefined,
+        modulate: (features) => {
+          const { mappings, values, applied } = modulationRef.current;
+          if (mappings.length > 0) modulateParams(sketch, values, mappings, features, applied);
+        },
+        onUpdate: (time, fps) => onUpdateRef.current?.(time, fps),
+        // Sketch time and playback move together
+        onTransport: offline ? undefined : ({ playing, speed }, time) => {
+          if (playing) audio?.play(time, speed);
+          else audio?.stop();
+        },
       });
 
+      // Params land before setup, like in the worker
+      applyParams(sketch, modulationRef.current.values);
+      modulationRef.current.applied.clear();
+
+      if (offline) {
+        runner.start();
+        stepRef.current = (deltaTime: number) => runner.renderNext(deltaTime);
+
+        return () => {
+          stepRef.current = null;
+          runner.destroy();
+        };
+      }
+
+      let animationFrameId: number;
       const loop = (now: number) => {
-        const time = (now - startTime) / 1000;
-        const deltaTime = (now - lastTime) / 1000;
-        lastTime = now;
-        frameCount++;
+        runner.tick(now);
+        animationFrameId = requestAnimationFrame(loop);
+      };
+
+      runnerRef.current = runner;
+      runner.start(resumeRef.current?.sketch === sketch ? resumeRef.current.time : 0);
+      loop(performance.now());
+
+      return () => {
+        cancelAnimationFrame(animationFrameId);
+        resumeRef.current = { sketch, time: runner.time };
+        runnerRef.current = null;
+        audio?.stop();
+        runner.destroy();
+      };
+    }, [sketch, duration, seed, audio, foregroundColor, backgroundColor, offline, workerActive]);
 
-        sketch.draw({
-          ctx,
+    // Worker mode: hand the canvas over once, the worker owns it from then on
+    useEffect(() => {
+      const canvas = internalCanvasRef.current;
+      if (!canvas || !workerActive || !sketchKey) return;
+
+      const instance = new Worker(new URL('../lib/sketch-worker.ts', import.meta.url), { type: 'module' });
+      instance.onmessage = ({ data }: MessageEvent<SketchWorkerResponse>) => {
+        if (data.type === 'stats') onUpdateRef.current?.(data.time, data.fps);
+        if (data.type === 'param') onParamChangeRef.current?.(data.key, data.value);
+        if (data.type === 'error') console.error("Sketch worker error:", data.message);
+      };
+      // A crashed or terminated worker never answers, fail what's waiting on it
+      instance.onerror = (e) => rejectRequests(instance, new Error(e.message || 'Sketch worker failed'));
+      instance.onmessageerror = () => rejectRequests(instance, new Error('Sketch worker reply could not be read'));
+      const offscreen = canvas.transferControlToOffscreen();
+      post(instance, { type: 'init', canvas: offscreen, sketch: sketchKey }, [offscreen]);
+      post(instance, { type: 'transport', transport: transportRef.current });
+      workerRef.current = instance;
+
+      return () => {
+        workerRef.current = null;
+        instance.terminate();
+        rejectRequests(instance, new Error('Sketch worker terminated'));
+      };
+    }, [workerActive, sketchKey]);
+
+    // Params before config so the first setup already sees them
+    useEffect(() => {
+      if (workerRef.current) post(workerRef.current, { type: 'params', params: paramValues });
+    }, [paramValues, workerActive, sketchKey]);
+
+    useEffect(() => {
+      if (!workerRef.current) return;
+      // The worker has no stylesheet, resolve the palette here
+      const css = getComputedStyle(document.body);
+      post(workerRef.current, {
+        type: 'config',
+        config: {
           width,
           height,
-          time,
-          deltaTime,
-          frame: frameCount,
-          theme: getTheme()
-        });
+          duration,
+          seed,
+          theme: {
+            foreground: foregroundColor || css.getPropertyValue('--foreground').trim() || '#ffffff',
+            background: backgroundColor || css.getPropertyValue('--background').trim() || '#000000',
+          },
+        },
+      });
+    }, [width, height, duration, seed, foregroundColor, backgroundColor, workerActive, sketchKey]);
 
-        if (onUpdate) {
-          const fps = Math.round(1 / deltaTime);
-          onUpdate(time, fps);
-        }
+    // Input: realtime only, recordings must not depend on what the mouse did.
+    // In worker mode events are forwarded; handler results can't come back in
+    // time, so only wheel (when the sketch handles it) blocks the default.
+    useEffect(() => {
+      const canvas = internalCanvasRef.current;
+      if (!canvas || offline) return;
 
-        animationFrameId = requestAnimationFrame(loop);
+      const forward = (input: SketchWorkerInput) => {
+        if (workerRef.current) post(workerRef.current, { type: 'input', input });
+      };
+
+      const pointer = (e: PointerEvent): SketchPointerEvent => ({
+        ...toSketchSpace(canvas, e.clientX, e.clientY),
+        buttons: e.buttons,
+        pointerType: e.pointerType,
+        ...modifiers(e),
+      });
+      const key = (e: KeyboardEvent): SketchKeyEvent => ({
+        key: e.key,
+        code: e.code,
+        repeat: e.repeat,
+        ...modifiers(e),
+      });
+
+      const onPointerDown = (e: PointerEvent) => {
+        if (!sketch.onPointerDown) return;
+        // Keep receiving moves while dragging outside the canvas
+        canvas.setPointerCapture(e.pointerId);
+        canvas.focus();
+        if (workerActive) forward({ type: 'pointerdown', event: pointer(e) });
+        else sketch.onPointerDown(pointer(e));
+      };
+      const onPointerMove = (e: PointerEvent) => {
+        if (workerActive) forward({ type: 'pointermove', event: pointer(e) });
+        else sketch.onPointerMove?.(pointer(e));
+      };
+      const onPointerUp = (e: PointerEvent) => {
+        if (canvas.hasPointerCapture(e.pointerId)) canvas.releasePointerCapture(e.pointerId);
+        if (workerActive) forward({ type: 'pointerup', event: pointer(e) });
+        else sketch.onPointerUp?.(pointer(e));
+      };
+      const onWheel = (e: WheelEvent) => {
+        if (!sketch.onWheel) return;
+        const event = {
+          ...toSketchSpace(canvas, e.clientX, e.clientY),
+          deltaX: e.deltaX,
+          deltaY: e.deltaY,
+          ...modifiers(e),
+        };
+        if (workerActive) {
+          forward({ type: 'wheel', event });
+          e.preventDefault();
+        } else if (sketch.onWheel(event)) {
+          e.preventDefault();
+        }
+      };
+      const onKeyDown = (e: KeyboardEvent) => {
+        if (workerActive) forward({ type: 'keydown', event: key(e) });
+        else if (sketch.onKeyDown?.(key(e))) e.preventDefault();
+      };
+      const onKeyUp = (e: KeyboardEvent) => {
+        if (workerActive) forward({ type: 'keyup', event: key(e) });
+        else if (sketch.onKeyUp?.(key(e))) e.preventDefault();
+      };
+      // Right-drag is usable by sketches that handle pointers
+      const onContextMenu = (e: MouseEvent) => {
+        if (sketch.onPointerDown) e.preventDefault();
       };
 
-      loop(startTime);
+      canvas.addEventListener('pointerdown', onPointerDown);
+      canvas.addEventListener('pointermove', onPointerMove);
+      canvas.addEventListener('pointerup', onPointerUp);
+      canvas.addEventListener('pointercancel', onPointerUp);
+      // Non-passive so handlers can stop the page from scrolling
+      canvas.addEventListener('wheel', onWheel, { passive: false });
+      canvas.addEventListener('keydown', onKeyDown);
+      canvas.addEventListener('keyup', onKeyUp);
+      canvas.addEventListener('contextmenu', onContextMenu);
 
       return () => {
-        cancelAnimationFrame(animationFrameId);
-        if (sketch.destroy) sketch.destroy();
+        canvas.removeEventListener('pointerdown', onPointerDown);
+        canvas.removeEventListener('pointermove', onPointerMove);
+        canvas.removeEventListener('pointerup', onPointerUp);
+        canvas.removeEventListener('pointercancel', onPointerUp);
+        canvas.removeEventListener('wheel', onWheel);
+        canvas.removeEventListener('keydown', onKeyDown);
+        canvas.removeEventListener('keyup', onKeyUp);
+        canvas.removeEventListener('contextmenu', onContextMenu);
       };
-    }, [sketch, width, height, foregroundColor, backgroundColor]);
+    }, [sketch, offline, workerActive]);
 
     return (
       <div
@@ -102,10 +430,16 @@ const CanvasSketch = forwardRef<HTMLCanvasElement, CanvasSketchProps>(
           "relative flex items-center justify-center bg-transparent",
           className
         )}
+        style={style}
       >
         <canvas
+          // transferControlToOffscreen is one-way: every worker run and the
+          // main-thread fallback each get a fresh element
+          key={workerActive ? `worker:${sketchKey}` : 'main'}
           ref={internalCanvasRef}
-          className="w-full h-full object-contain bg-black"
+          // Focusable so key events reach the sketch
+          tabIndex={0}
+          className="w-full h-full object-contain bg-black outline-none touch-none"
           style={{ maxWidth: '100%', maxHeight: '100%' }}
         />
       </div>
@@ -113,5 +447,54 @@ const CanvasSketch = forwardRef<HTMLCanvasElement, CanvasSketchProps>(
   }
 );
 
+function post(worker: Worker, message: SketchWorkerRequest, transfer: Transferable[] = []) {
+  worker.postMessage(message, transfer);
+}
+
+let nextRequestId = 0;
+
+// Longest wait for a reply (ms). Generous, a seek right after a param edit
+// replays the sketch from the start.
+const REQUEST_TIMEOUT = 60_000;
+
+// Rejecters of each worker's unanswered requests, by id
+const pendingRequests = new WeakMap<Worker, Map<number, (error: Error) => void>>();
+
+function rejectRequests(worker: Worker, error: Error) {
+  for (const reject of [...pendingRequests.get(worker)?.values() ?? []]) reject(error);
+}
+
+// Send a request and wait for the worker's reply with the same type and id.
+// Rejects if the worker reports an error for it, fails, is terminated or
+// doesn't answer in time.
+function request<T extends Extract<SketchWorkerRequest, { id: number }>>(worker: Worker, message: T) {
+  return new Promise<Extract<SketchWorkerResponse, { type: T['type'] }>>((resolve, reject) => {
+    let pending = pendingRequests.get(worker);
+    if (!pending) pendingRequests.set(worker, pending = new Map());
+
+    const settle = () => {
+      clearTimeout(timeout);
+      worker.removeEventListener('message', onMessage);
+      pending.delete(message.id);
+    };
+    const fail = (error: Error) => {
+      settle();
+      reject(error);
+    };
+    const onMessage = ({ data }: MessageEvent<SketchWorkerResponse>) => {
+      if (!('id' in data) || data.id !== message.id) return;
+      if (data.type === 'error') return fail(new Error(data.message));
+      if (data.type !== message.type) return;
+      settle();
+      resolve(data as Extract<SketchWorkerResponse, { type: T['type'] }>);
+    };
+    const timeout = setTimeout(() => fail(new Error(`Sketch worker did not answer "${message.type}"`)), REQUEST_TIMEOUT);
+
+    pending.set(message.id, fail);
+    worker.addEventListener('message', onMessage);
+    post(worker, message);
+  });
+}
+
 CanvasSketch.displayName = 'CanvasSketch';
 export default CanvasSketch;
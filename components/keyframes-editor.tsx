@@ -0,0 +1,93 @@
+'use client';
+
+import { ArrowDown, ArrowUp, Plus, X } from 'lucide-react';
+import { KeyframeField, ParamKeyframe } from '@/lib/sketches/types';
+import { cn } from '@/lib/utils';
+
+interface KeyframesEditorProps {
+  fields: KeyframeField[];
+  value: ParamKeyframe[];
+  onChange: (value: ParamKeyframe[]) => void;
+  minLength: number;
+  maxLength: number;
+  itemLabel?: string;
+  disabled?: boolean;
+}
+
+const iconButtonClass = "h-5 w-5 flex items-center justify-center border border-border text-text hover:bg-text-strong hover:text-text-inverted transition-colors disabled:opacity-30 disabled:pointer-events-none";
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Round away float noise from unit conversions (e.g. 0.5π shown as 0.5)
+const display = (value: number, field: KeyframeField) =>
+  Number((value / (field.unit?.scale ?? 1)).toFixed(4));
+
+// Add / remove / reorder keyframes and edit their fields
+export function KeyframesEditor({ fields, value, onChange, minLength, maxLength, itemLabel = 'keyframe', disabled }: KeyframesEditorProps) {
+  const update = (index: number, field: KeyframeField, input: string) => {
+    const parsed = parseFloat(input);
+    if (!Number.isFinite(parsed)) return;
+    const next = clamp(parsed * (field.unit?.scale ?? 1), field.min, field.max);
+    onChange(value.map((k, i) => i === index ? { ...k, [field.key]: next } : k));
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = [...value];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className={cn("space-y-2", disabled && "opacity-50 pointer-events-none")}>
+      {value.map((keyframe, index) => (
+        <div key={index} className="border border-border p-1.5 space-y-1">
+          <div className="flex justify-between items-center">
+            <span className="text-text-weak">{index + 1}</span>
+            <div className="flex gap-1">
+              <button onClick={() => move(index, -1)} disabled={index === 0} className={iconButtonClass} title="move up">
+                <ArrowUp className="w-3 h-3" />
+              </button>
+              <button onClick={() => move(index, 1)} disabled={index === value.length - 1} className={iconButtonClass} title="move down">
+                <ArrowDown className="w-3 h-3" />
+              </button>
+              <button
+                onClick={() => onChange(value.filter((_, i) => i !== index))}
+                disabled={value.length <= minLength}
+                className={iconButtonClass}
+                title={`remove ${itemLabel}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          </div>
+          <div className="grid gap-1" style={{ gridTemplateColumns: `repeat(${fields.length}, minmax(0, 1fr))` }}>
+            {fields.map(field => (
+              <label key={field.key} className="space-y-0.5">
+                <span className="block text-[10px] text-text-weak">
+                  {field.label}{field.unit && ` (${field.unit.label})`}
+                </span>
+                <input
+                  type="number"
+                  min={display(field.min, field)}
+                  max={display(field.max, field)}
+                  step={display(field.step, field)}
+                  value={display(keyframe[field.key], field)}
+                  onChange={(e) => update(index, field, e.target.value)}
+                  className="w-full px-1 py-0.5 text-right text-text-strong border border-border outline-none focus:border-text-strong"
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <button
+        onClick={() => onChange([...value, { ...value[value.length - 1] }])}
+        disabled={value.length >= maxLength}
+        className="w-full py-1 flex items-center justify-center gap-1 text-xs border border-border uppercase transition-colors hover:bg-background-weak disabled:opacity-50"
+      >
+        <Plus className="w-3 h-3" /> {itemLabel}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+'use client';
+
+import { ChevronDown } from 'lucide-react';
+import { MultiRangeSlider } from '@/components/multi-range-slider';
+import { KeyframesEditor } from '@/components/keyframes-editor';
+import { ParamDef, ParamHost, ParamKeyframe, ParamValue, ParamValues } from '@/lib/sketches/types';
+import { cn } from '@/lib/utils';
+
+interface ParamControlsProps {
+  schema: ParamDef[];
+  values: ParamValues;
+  host: ParamHost;
+  onChange: (key: string, value: ParamValue) => void;
+}
+
+// Renders controls for a param schema, grouped by `group` in declaration order
+export function ParamControls({ schema, values, host, onChange }: ParamControlsProps) {
+  const groups: { name?: string; defs: ParamDef[] }[] = [];
+  for (const def of schema) {
+    const existing = groups.find(g => g.name === def.group);
+    if (existing) existing.defs.push(def);
+    else groups.push({ name: def.group, defs: [def] });
+  }
+
+  return (
+    <>
+      {groups.map(({ name, defs }) => name ? (
+        <div key={name} className="space-y-4">
+          <label className="text-text block">{name}</label>
+          {defs.map(def => (
+            <ParamControl key={def.key} def={def} values={values} host={host} onChange={onChange} />
+          ))}
+        </div>
+      ) : (
+        defs.map(def => (
+          <ParamControl key={def.key} def={def} values={values} host={host} onChange={onChange} />
+        ))
+      ))}
+    </>
+  );
+}
+
+interface ParamControlProps {
+  def: ParamDef;
+  values: ParamValues;
+  host: ParamHost;
+  onChange: (key: string, value: ParamValue) => void;
+}
+
+function ParamControl({ def, values, host, onChange }: ParamControlProps) {
+  const value = values[def.key] ?? def.default;
+  const disabled = def.disabled?.(values) ?? false;
+  const hint = def.hint?.(values, host);
+
+  let control: React.ReactNode;
+
+  switch (def.type) {
+    case 'number': {
+      const num = value as number;
+      control = (
+        <div className="space-y-1">
+          <div className="flex justify-between">
+            <span>{def.label}</span>
+            <span className="text-text-main">{def.format ? def.format(num) : num}</span>
+          </div>
+          <input
+            type="range"
+            min={def.min}
+            max={def.max}
+            step={def.step}
+            disabled={disabled}
+            value={num}
+            onChange={(e) => onChange(def.key, parseFloat(e.target.value))}
+            className={cn(
+              "w-full accent-text-strong cursor-grab active:cursor-grabbing",
+              disabled && "opacity-50 cursor-not-allowed"
+            )}
+          />
+        </div>
+      );
+      break;
+    }
+
+    case 'enum':
+      if (def.display === 'buttons') {
+        control = (
+          <div className="flex border border-border rounded-sm overflow-hidden">
+            {def.options.map(opt => (
+              <button
+                key={opt.value}
+                disabled={disabled}
+                onClick={() => onChange(def.key, opt.value)}
+                className={cn("flex-1 py-1 text-xs transition-colors uppercase", value === opt.value ? 'bg-text-strong text-text-inverted' : 'hover:bg-background-weak')}
+              >
+                {opt.label}
+              </button>
+            ))}
+          </div>
+        );
+      } else {
+        control = (
+          <div className="space-y-2">
+            <label className="text-text">{def.label}</label>
+            <div className="relative group">
+              <select
+                value={value as string}
+                disabled={disabled}
+                onChange={(e) => onChange(def.key, e.target.value)}
+                className="w-full text-text-strong p-2 rounded-none border border-border outline-none appearance-none hover:border-text-weak focus:border-text-strong transition-colors cursor-pointer"
+              >
+                {def.options.map(opt => (
+                  <option key={opt.value} value={opt.value}>{opt.label}</option>
+                ))}
+              </select>
+              <ChevronDown className="absolute right-2.5 top-1/2 -translate-y-1/2 opacity-50 w-4 h-4 text-text pointer-events-none" />
+            </div>
+          </div>
+        );
+      }
+      break;
+
+    case 'boolean':
+      control = (
+        <button
+          disabled={disabled}
+          onClick={() => onChange(def.key, !value)}
+          className={cn(
+            "w-full py-1 text-xs border border-border uppercase transition-colors",
+            value ? "bg-text-strong text-text-inverted" : "hover:bg-background-weak"
+          )}
+        >
+          {def.label}
+        </button>
+      );
+      break;
+
+    case 'color':
+      control = (
+        <div className="flex justify-between items-center gap-2">
+          <span>{def.label}</span>
+          <div className="w-24 space-y-1">
+            <input
+              type="color"
+              value={value as string}
+              disabled={disabled}
+              onChange={(e) => onChange(def.key, e.target.value)}
+              className="w-full h-6 bg-transparent border border-border cursor-pointer p-0"
+            />
+            <div className="text-xs text-text text-center uppercase">{value as string}</div>
+          </div>
+        </div>
+      );
+      break;
+
+    case 'thresholds':
+      control = (
+        <div className="space-y-2 pt-2">
+          <div className="flex justify-between items-center">
+            <span>{def.label}</span>
+          </div>
+          <MultiRangeSlider
+            min={def.min}
+            max={def.max}
+            step={def.step}
+            disabled={disabled}
+            value={value as number[]}
+            onChange={(next) => onChange(def.key, next)}
+          />
+        </div>
+      );
+      break;
+
+    case 'file':
+      control = (
+        <div className="space-y-1">
+          <span>{def.label}</span>
+          <input
+            type="file"
+            accept={def.accept}
+            disabled={disabled}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (!file) return;
+              if (typeof value === 'string' && value.startsWith('blob:')) {
+                URL.revokeObjectURL(value);
+              }
+              onChange(def.key, URL.createObjectURL(file));
+            }}
+          />
+        </div>
+      );
+      break;
+
+    case 'keyframes':
+      control = (
+        <div className="space-y-2">
+          <span>{def.label}</span>
+          <KeyframesEditor
+            fields={def.fields}
+            value={value as ParamKeyframe[]}
+            minLength={def.minLength}
+            maxLength={def.maxLength}
+            itemLabel={def.itemLabel}
+            disabled={disabled}
+            onChange={(next) => onChange(def.key, next)}
+          />
+        </div>
+      );
+      break;
+  }
+
+  if (!hint) return control;
+
+  return (
+    <div className="space-y-1">
+      {control}
+      <div className="flex justify-between text-xs text-text-weak pt-1">
+        {(Array.isArray(hint) ? hint : [hint]).map((line, i) => (
+          <span key={i}>{line}</span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { ChevronDown, RefreshCw } from 'lucide-react';
+import { DEFAULT_PLOT_SETTINGS, PAPER_SIZES, PaperSize, PlotPath, PlotSettings, planPlot, plotToGcode, plotToHpgl, plotToSvg } from '@/lib/plotter';
+import { cn, download } from '@/lib/utils';
+
+interface PlotterPanelProps {
+  sources: { value: string; label: string }[];
+  // Polylines for a source, taken from the sketch's current state
+  onGrab: (source: string) => Promise<PlotPath[]>;
+  filename: string;
+}
+
+const inputClass = "w-14 px-1 py-0.5 text-right text-text-strong border border-border outline-none focus:border-text-strong";
+
+const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
+// Plot source picker, paper / pen settings, travel preview and HPGL / G-code / SVG export
+export function PlotterPanel({ sources, onGrab, filename }: PlotterPanelProps) {
+  const [source, setSource] = useState(sources[0]?.value ?? '');
+  const [paths, setPaths] = useState<PlotPath[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [settings, setSettings] = useState<PlotSettings>(DEFAULT_PLOT_SETTINGS);
+
+  const plan = useMemo(() => paths && paths.length > 0 ? planPlot(paths, settings) : null, [paths, settings]);
+
+  const grab = async (next: string) => {
+    setSource(next);
+    setError(null);
+    try {
+      setPaths(await onGrab(next));
+    } catch (e) {
+      // Don't leave the previous source's paths behind
+      setPaths(null);
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const update = (patch: Partial<PlotSettings>) => setSettings(prev => ({ ...prev, ...patch }));
+
+  const handleExport = (type: 'svg' | 'hpgl' | 'gcode') => {
+    if (!plan) return;
+    const [text, mimeType] =
+      type === 'svg' ? [plotToSvg(plan), 'image/svg+xml']
+        : type === 'hpgl' ? [plotToHpgl(plan, settings), 'application/vnd.hp-hpgl']
+          : [plotToGcode(plan, settings), 'text/x-gcode'];
+    download(new Blob([text], { type: mimeType }), `${filename}_plot.${type}`);
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="text-text block">plotter</label>
+
+      <div className="flex gap-1">
+        <div className="relative flex-1">
+          <select
+            value={source}
+            onChange={(e) => grab(e.target.value)}
+            className="w-full text-text-strong px-1 py-0.5 rounded-none border border-border outline-none appearance-none hover:border-text-weak focus:border-text-strong transition-colors cursor-pointer"
+          >
+            {sources.map(opt => (
+              <option key={opt.value} value={opt.value}>{opt.label}</option>
+            ))}
+          </select>
+          <ChevronDown className="absolute right-1 top-1/2 -translate-y-1/2 opacity-50 w-3 h-3 text-text pointer-events-none" />
+        </div>
+        <button
+          onClick={() => grab(source)}
+          className="h-6 w-6 flex items-center justify-center border border-border text-text hover:bg-text-strong hover:text-text-inverted transition-colors"
+          title="grab current state"
+        >
+          <RefreshCw className="w-3 h-3" />
+        </button>
+      </div>
+      {error && <span className="text-[10px] text-red-700 block">{error}</span>}
+
+      <div className="flex border border-border rounded-sm overflow-hidden">
+        {(Object.keys(PAPER_SIZES) as PaperSize[]).map(paper => (
+          <button
+            key={paper}
+            onClick={() => update({ paper })}
+            className={cn("flex-1 py-0.5 text-xs transition-colors", settings.paper === paper ? 'bg-text-strong text-text-inverted' : 'hover:bg-background-weak')}
+          >
+            {paper}
+          </button>
+        ))}
+      </div>
+      <div className="flex border border-border rounded-sm overflow-hidden">
+        {(['portrait', 'landscape'] as const).map(orientation => (
+          <button
+            key={orientation}
+            onClick={() => update({ orientation })}
+            className={cn("flex-1 py-0.5 text-xs transition-colors", settings.orientation === orientation ? 'bg-text-strong text-text-inverted' : 'hover:bg-background-weak')}
+          >
+            {orientation}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex justify-between items-center">
+        <span>margin</span>
+        <div className="flex items-center gap-1">
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={settings.margin}
+            onChange={(e) => update({ margin: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) })}
+            className={inputClass}
+          />
+          <span>mm</span>
+        </div>
+      </div>
+      <div className="flex justify-between items-center">
+        <span>pen speed</span>
+        <div className="flex items-center gap-1">
+          <input
+            type="number"
+            min={1}
+            max={200}
+            value={settings.speed}
+            onChange={(e) => update({ speed: Math.min(200, Math.max(1, parseFloat(e.target.value) || DEFAULT_PLOT_SETTINGS.speed)) })}
+            className={inputClass}
+          />
+          <span>mm/s</span>
+        </div>
+      </div>
+      <div className="flex justify-between items-center">
+        <span>simplify</span>
+        <div className="flex items-center gap-1">
+          <input
+            type="number"
+            min={0}
+            max={2}
+            step={0.01}
+            value={settings.tolerance}
+            onChange={(e) => update({ tolerance: Math.min(2, Math.max(0, parseFloat(e.target.value) || 0)) })}
+            className={inputClass}
+          />
+          <span>mm</span>
+        </div>
+      </div>
+      <button
+        onClick={() => update({ optimize: !settings.optimize })}
+        className={cn(
+          "w-full py-1 text-xs border border-border uppercase transition-colors",
+          settings.optimize ? "bg-text-strong text-text-inverted" : "hover:bg-background-weak"
+        )}
+      >
+        optimize order
+      </button>
+
+      {plan ? (
+        <>
+          {/* Drawing in black, pen-up travel dashed in red */}
+          <svg viewBox={`0 0 ${plan.width} ${plan.height}`} className="w-full border border-border bg-white">
+            <rect
+              x={settings.margin}
+              y={settings.margin}
+              width={Math.max(0, plan.width - settings.margin * 2)}
+              height={Math.max(0, plan.height - settings.margin * 2)}
+              fill="none"
+              stroke="#ccc"
+              strokeDasharray="2 2"
+              vectorEffect="non-scaling-stroke"
+            />
+            {plan.layers.flatMap(layer => layer.paths).map((points, i) => (
+              <polyline key={i} points={points.join(' ')} fill="none" stroke="#000" strokeWidth={0.75} vectorEffect="non-scaling-stroke" />
+            ))}
+            {plan.travel.map(([x0, y0, x1, y1], i) => (
+              <line key={i} x1={x0} y1={y0} x2={x1} y2={y1} stroke="#e00" strokeWidth={0.75} strokeDasharray="3 2" vectorEffect="non-scaling-stroke" />
+            ))}
+          </svg>
+
+          <div className="space-y-1 text-text-weak">
+            <div className="flex justify-between"><span>paths</span><span>{plan.stats.paths} · {plan.stats.points} pts</span></div>
+            <div className="flex justify-between"><span>draw / travel</span><span>{(plan.stats.drawLength / 1000).toFixed(2)} m / {(plan.stats.travelLength / 1000).toFixed(2)} m</span></div>
+            <div className="flex justify-between"><span>est. time</span><span>{formatDuration(plan.stats.duration)}</span></div>
+          </div>
+
+          <div className="flex border border-border rounded-sm overflow-hidden">
+            {(['svg', 'hpgl', 'gcode'] as const).map(type => (
+              <button
+                key={type}
+                onClick={() => handleExport(type)}
+                className="flex-1 py-1 text-xs transition-colors uppercase hover:bg-background-weak"
+              >
+                {type}
+              </button>
+            ))}
+          </div>
+        </>
+      ) : (
+        <button
+          onClick={() => grab(source)}
+          className="w-full py-1 text-xs border border-border uppercase transition-colors hover:bg-background-weak"
+        >
+          {paths ? 'nothing to plot' : 'grab paths'}
+        </button>
+      )}
+    </div>
+  );
+}
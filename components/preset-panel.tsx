@@ -0,0 +1,149 @@
+'use client';
+
+import { useRef, useState, useSyncExternalStore } from 'react';
+import { Pencil, Trash2 } from 'lucide-react';
+import { Preset, createPresetId, parsePresets, presetStore, serializePresets } from '@/lib/presets';
+import { SketchPreset } from '@/lib/sketches/types';
+import { cn, download } from '@/lib/utils';
+
+interface PresetPanelProps {
+  sketch: string; // Registry key of the active sketch
+  builtIns?: SketchPreset[];
+  // Current configuration, captured on save
+  current: Omit<Preset, 'id' | 'name'>;
+  onLoad: (preset: Omit<Preset, 'id'>) => void;
+}
+
+// Built-in + saved presets for the active sketch, with save/rename/delete and JSON import/export
+export function PresetPanel({ sketch, builtIns = [], current, onLoad }: PresetPanelProps) {
+  const presets = useSyncExternalStore(presetStore.subscribe, presetStore.getSnapshot, presetStore.getServerSnapshot);
+  const own = presets.filter(p => p.sketch === sketch);
+  const [name, setName] = useState('');
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const handleSave = () => {
+    const trimmed = name.trim() || `${sketch} ${own.length + 1}`;
+    presetStore.set([...presets, { ...current, id: createPresetId(), name: trimmed }]);
+    setName('');
+  };
+
+  const commitRename = () => {
+    if (!editing) return;
+    const trimmed = editing.name.trim();
+    if (trimmed) {
+      presetStore.set(presets.map(p => p.id === editing.id ? { ...p, name: trimmed } : p));
+    }
+    setEditing(null);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parsePresets(await file.text());
+      presetStore.set([...presets, ...imported]);
+    } catch (e) {
+      alert(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleExport = () => {
+    download(new Blob([serializePresets(presets)], { type: 'application/json' }), '256kb-presets.json');
+  };
+
+  const rowClass = "flex-1 text-left truncate px-2 py-1 hover:bg-background-weak transition-colors";
+
+  return (
+    <div className="space-y-2">
+      <label className="text-text block">presets</label>
+
+      <div className="border border-border divide-y divide-border max-h-48 overflow-y-auto">
+        {builtIns.map(preset => (
+          <div key={`builtin:${preset.name}`} className="flex items-center">
+            <button onClick={() => onLoad({ ...preset, sketch })} className={rowClass}>
+              {preset.name}
+            </button>
+            <span className="px-2 text-[10px] text-text-weak">built-in</span>
+          </div>
+        ))}
+        {own.map(preset => (
+          <div key={preset.id} className="flex items-center">
+            {editing?.id === preset.id ? (
+              <input
+                autoFocus
+                value={editing.name}
+                onChange={(e) => setEditing({ id: preset.id, name: e.target.value })}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') setEditing(null);
+                }}
+                className="flex-1 px-2 py-1 text-text-strong outline-none"
+              />
+            ) : (
+              <button onClick={() => onLoad(preset)} className={cn(rowClass, "text-text-strong")}>
+                {preset.name}
+              </button>
+            )}
+            <button
+              onClick={() => setEditing({ id: preset.id, name: preset.name })}
+              className="h-6 w-6 flex items-center justify-center text-text hover:bg-text-strong hover:text-text-inverted transition-colors"
+              title="rename"
+            >
+              <Pencil className="w-3 h-3" />
+            </button>
+            <button
+              onClick={() => presetStore.set(presets.filter(p => p.id !== preset.id))}
+              className="h-6 w-6 flex items-center justify-center text-text hover:bg-red-700 hover:text-text-inverted transition-colors"
+              title="delete"
+            >
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-1">
+        <input
+          value={name}
+          placeholder="name"
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          className="flex-1 min-w-0 px-1 py-0.5 text-text-strong border border-border outline-none focus:border-text-strong"
+        />
+        <button
+          onClick={handleSave}
+          className="px-2 py-0.5 text-xs border border-border transition-colors hover:bg-text-strong hover:text-text-inverted"
+        >
+          save
+        </button>
+      </div>
+
+      <div className="flex border border-border rounded-sm overflow-hidden">
+        <button
+          onClick={() => fileRef.current?.click()}
+          className="flex-1 py-1 text-xs transition-colors uppercase hover:bg-background-weak"
+        >
+          import
+        </button>
+        <button
+          onClick={handleExport}
+          disabled={presets.length === 0}
+          className={cn("flex-1 py-1 text-xs transition-colors uppercase hover:bg-background-weak", presets.length === 0 && "opacity-50 cursor-not-allowed")}
+        >
+          export
+        </button>
+      </div>
+      <input
+        ref={fileRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleImport(file);
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+}
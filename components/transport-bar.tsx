@@ -0,0 +1,75 @@
+'use client';
+
+import { Pause, Play, StepBack, StepForward } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface TransportBarProps {
+  playing: boolean;
+  speed: number;
+  time: number; // Seconds into the loop
+  duration: number;
+  fps: number; // Timeline resolution, the export frame rate
+  disabled?: boolean;
+  onPlayingChange: (playing: boolean) => void;
+  onSpeedChange: (speed: number) => void;
+  onSeek: (time: number) => void;
+  onStep: (frames: number) => void;
+}
+
+const SPEEDS = [0.25, 0.5, 1, 2];
+
+const iconButtonClass = "h-6 w-6 flex items-center justify-center border border-border text-text hover:bg-text-strong hover:text-text-inverted transition-colors disabled:opacity-50 disabled:pointer-events-none";
+
+// Play / pause, frame steps, loop timeline and playback speed for the preview
+export function TransportBar({ playing, speed, time, duration, fps, disabled, onPlayingChange, onSpeedChange, onSeek, onStep }: TransportBarProps) {
+  const frame = Math.round(time * fps);
+
+  return (
+    <div className="flex items-center gap-1 font-mono text-xs text-text">
+      <button
+        onClick={() => onPlayingChange(!playing)}
+        disabled={disabled}
+        className={iconButtonClass}
+        title={playing ? 'pause' : 'play'}
+      >
+        {playing ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+      </button>
+      <button onClick={() => onStep(-1)} disabled={disabled} className={iconButtonClass} title="previous frame">
+        <StepBack className="w-3 h-3" />
+      </button>
+      <button onClick={() => onStep(1)} disabled={disabled} className={iconButtonClass} title="next frame">
+        <StepForward className="w-3 h-3" />
+      </button>
+
+      <input
+        type="range"
+        min={0}
+        max={duration}
+        step={1 / fps}
+        value={time}
+        disabled={disabled}
+        onChange={(e) => onSeek(parseFloat(e.target.value))}
+        className={cn(
+          "flex-1 mx-1 accent-text-strong cursor-grab active:cursor-grabbing",
+          disabled && "opacity-50 cursor-not-allowed"
+        )}
+      />
+      <span className="w-24 text-right text-text-main tabular-nums" title={`frame ${frame} of ${Math.round(duration * fps)}`}>
+        {time.toFixed(2)}s / {duration}s
+      </span>
+
+      <div className="flex border border-border rounded-sm overflow-hidden ml-1">
+        {SPEEDS.map(value => (
+          <button
+            key={value}
+            onClick={() => onSpeedChange(value)}
+            disabled={disabled}
+            className={cn("px-1.5 py-0.5 text-xs transition-colors", speed === value ? 'bg-text-strong text-text-inverted' : 'hover:bg-background-weak')}
+          >
+            {value}x
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
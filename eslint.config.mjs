@@ -12,6 +12,8 @@ const eslintConfig = defineConfig([
     "out/**",
     "build/**",
     "next-env.d.ts",
+    // Vendored ffmpeg.wasm core (scripts/copy-ffmpeg-core.mjs)
+    "public/ffmpeg/**",
   ]),
 ]);
 
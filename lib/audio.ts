@@ -0,0 +1,282 @@
+// Audio input for sketches: a decoded file, played through an AnalyserNode in
+// realtime and analysed straight from the decoded samples when recording, so
+// exports are deterministic.
+
+import type { ParamValues, Sketch } from '@/lib/sketches/types';
+
+export interface AudioFeatures {
+  level: number; // RMS of the current window, 0..1
+  // Average band energy, 0..1
+  bass: number;
+  mid: number;
+  treble: number;
+  spectrum: Float32Array; // Normalized magnitude per bin, 0..1 (FFT_SIZE / 2 bins)
+  beat: boolean; // Onset detected this frame
+}
+
+// Scalar features params can be mapped to
+export type AudioFeature = 'level' | 'bass' | 'mid' | 'treble' | 'beat';
+export const AUDIO_FEATURES: AudioFeature[] = ['bass', 'mid', 'treble', 'level', 'beat'];
+
+// Mirrors the AnalyserNode defaults so realtime and offline look alike
+const FFT_SIZE = 2048;
+const MIN_DB = -100;
+const MAX_DB = -30;
+const SMOOTHING = 0.8;
+
+const BANDS = {
+  bass: [20, 250],
+  mid: [250, 2000],
+  treble: [2000, 8000],
+} as const;
+
+// Beat = bass energy jumping above its recent average
+const BEAT_WINDOW = 1; // seconds of history
+const BEAT_THRESHOLD = 1.4; // x recent average
+const BEAT_MIN_ENERGY = 0.15;
+const BEAT_COOLDOWN = 0.25; // seconds
+
+export interface AudioAnalyzer {
+  analyze(time: number): AudioFeatures;
+}
+
+export class AudioSource {
+  private player: AudioBufferSourceNode | null = null;
+  private analyser: AnalyserNode;
+  private mono: Float32Array;
+
+  private constructor(
+    readonly name: string,
+    readonly data: Uint8Array, // Original file bytes, muxed into exports as-is
+    private context: AudioContext,
+    private buffer: AudioBuffer
+  ) {
+    this.analyser = context.createAnalyser();
+    this.analyser.fftSize = FFT_SIZE;
+    this.analyser.minDecibels = MIN_DB;
+    this.analyser.maxDecibels = MAX_DB;
+    this.analyser.smoothingTimeConstant = SMOOTHING;
+    this.analyser.connect(context.destination);
+    this.mono = mixDown(buffer);
+  }
+
+  static async fromFile(file: File): Promise<AudioSource> {
+    const data = new Uint8Array(await file.arrayBuffer());
+    const context = new AudioContext();
+    // decodeAudioData detaches the buffer it gets, keep our copy intact
+    const buffer = await context.decodeAudioData(data.slice().buffer);
+    return new AudioSource(file.name, data, context, buffer);
+  }
+
+  get duration() {
+    return this.buffer.duration;
+  }
+
+  get extension() {
+    return this.name.includes('.') ? this.name.split('.').pop()!.toLowerCase() : 'audio';
+  }
+
+  // Realtime playback from `offset` seconds, looping like the sketch does
+  play(offset = 0, rate = 1) {
+    this.stop();
+    this.context.resume().catch(() => { });
+    const player = this.context.createBufferSource();
+    player.buffer = this.buffer;
+    player.loop = true;
+    player.playbackRate.value = rate;
+    player.connect(this.analyser);
+    player.start(0, offset % this.buffer.duration);
+    this.player = player;
+  }
+
+  stop() {
+    if (!this.player) return;
+    this.player.stop();
+    this.player.disconnect();
+    this.player = null;
+  }
+
+  close() {
+    this.stop();
+    this.context.close().catch(() => { });
+  }
+
+  // One analyzer per run: beat detection and smoothing keep state between frames
+  createAnalyzer(offline: boolean): AudioAnalyzer {
+    const sampleRate = this.buffer.sampleRate;
+    const features = createFeatureTracker(sampleRate);
+
+    if (!offline) {
+      const db = new Float32Array(FFT_SIZE / 2);
+      const samples = new Float32Array(FFT_SIZE);
+      return {
+        analyze: (time) => {
+          this.analyser.getFloatFrequencyData(db);
+          this.analyser.getFloatTimeDomainData(samples);
+          return features(db, rms(samples), time);
+        },
+      };
+    }
+
+    // Offline: same pipeline as the AnalyserNode (Blackman window, FFT,
+    // smoothing, dB), computed from the window of samples ending at `time`
+    const taper = blackman(FFT_SIZE);
+    const re = new Float32Array(FFT_SIZE);
+    const im = new Float32Array(FFT_SIZE);
+    const smoothed = new Float32Array(FFT_SIZE / 2);
+    const db = new Float32Array(FFT_SIZE / 2);
+    const samples = new Float32Array(FFT_SIZE);
+
+    return {
+      analyze: (time) => {
+        const end = Math.floor((time % this.buffer.duration) * sampleRate);
+        for (let i = 0; i < FFT_SIZE; i++) {
+          // Wrap around the start, playback loops too
+          const index = (end - FFT_SIZE + i + this.mono.length) % this.mono.length;
+          samples[i] = this.mono[index];
+          re[i] = samples[i] * taper[i];
+          im[i] = 0;
+        }
+        fft(re, im);
+        for (let k = 0; k < FFT_SIZE / 2; k++) {
+          const magnitude = Math.hypot(re[k], im[k]) / FFT_SIZE;
+          smoothed[k] = SMOOTHING * smoothed[k] + (1 - SMOOTHING) * magnitude;
+          db[k] = 20 * Math.log10(smoothed[k] || 1e-12);
+        }
+        return features(db, rms(samples), time);
+      },
+    };
+  }
+}
+
+// dB spectrum + RMS -> normalized features with beat onsets
+function createFeatureTracker(sampleRate: number) {
+  const spectrum = new Float32Array(FFT_SIZE / 2);
+  const binHz = sampleRate / FFT_SIZE;
+  const history: { time: number; energy: number }[] = [];
+  let lastBeat = -Infinity;
+
+  const band = ([from, to]: readonly [number, number]) => {
+    const start = Math.max(1, Math.floor(from / binHz));
+    const end = Math.min(spectrum.length, Math.ceil(to / binHz));
+    let sum = 0;
+    for (let k = start; k < end; k++) sum += spectrum[k];
+    return end > start ? sum / (end - start) : 0;
+  };
+
+  return (db: Float32Array, level: number, time: number): AudioFeatures => {
+    for (let k = 0; k < spectrum.length; k++) {
+      spectrum[k] = Math.min(1, Math.max(0, (db[k] - MIN_DB) / (MAX_DB - MIN_DB)));
+    }
+    const bass = band(BANDS.bass);
+
+    // Drop history outside the window (or all of it when time jumps back)
+    while (history.length && (history[0].time < time - BEAT_WINDOW || history[0].time > time)) {
+      history.shift();
+    }
+    const average = history.length ? history.reduce((sum, h) => sum + h.energy, 0) / history.length : bass;
+    const beat = bass > BEAT_MIN_ENERGY && bass > average * BEAT_THRESHOLD && time - lastBeat >= BEAT_COOLDOWN;
+    if (beat) lastBeat = time;
+    history.push({ time, energy: bass });
+
+    return {
+      level: Math.min(1, level * Math.SQRT2),
+      bass,
+      mid: band(BANDS.mid),
+      treble: band(BANDS.treble),
+      spectrum,
+      beat,
+    };
+  };
+}
+
+export function getFeature(features: AudioFeatures, feature: AudioFeature): number {
+  return feature === 'beat' ? (features.beat ? 1 : 0) : features[feature];
+}
+
+// Drives a number param from a feature: base + amount * feature * (max - min)
+export interface AudioMapping {
+  key: string;
+  feature: AudioFeature;
+  amount: number; // -1..1
+}
+
+// Push modulated values on top of the host's param values for this frame.
+// `applied` remembers what was last set per param, so values that didn't
+// change aren't set again (layout params like grid sizes rebuild on every
+// set); clear it whenever the base values are re-applied to the sketch.
+export function modulateParams(sketch: Sketch, values: ParamValues, mappings: AudioMapping[], features: AudioFeatures, applied: Map<string, number>) {
+  if (!sketch.setParam) return;
+  for (const mapping of mappings) {
+    const def = sketch.params?.find(d => d.key === mapping.key);
+    if (def?.type !== 'number') continue;
+    const base = (values[def.key] as number | undefined) ?? def.default;
+    const value = base + mapping.amount * getFeature(features, mapping.feature) * (def.max - def.min);
+    // Snap to the param's step like the slider would, so integer params
+    // (laps, turns, grid sizes) stay whole
+    const steps = Math.round((Math.min(def.max, Math.max(def.min, value)) - def.min) / def.step);
+    const snapped = Math.min(def.max, def.min + steps * def.step);
+    if (applied.get(def.key) === snapped) continue;
+    applied.set(def.key, snapped);
+    sketch.setParam(def.key, snapped);
+  }
+}
+
+function mixDown(buffer: AudioBuffer) {
+  const mono = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const channel = buffer.getChannelData(c);
+    for (let i = 0; i < channel.length; i++) mono[i] += channel[i] / buffer.numberOfChannels;
+  }
+  return mono;
+}
+
+function rms(samples: Float32Array) {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / samples.length);
+}
+
+function blackman(size: number) {
+  const window = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    const x = (2 * Math.PI * i) / size;
+    window[i] = 0.42 - 0.5 * Math.cos(x) + 0.08 * Math.cos(2 * x);
+  }
+  return window;
+}
+
+// In-place iterative radix-2 FFT
+function fft(re: Float32Array, im: Float32Array) {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (-2 * Math.PI) / len;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let i = 0; i < n; i += len) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const aRe = re[i + k], aIm = im[i + k];
+        const bRe = re[i + k + len / 2] * curRe - im[i + k + len / 2] * curIm;
+        const bIm = re[i + k + len / 2] * curIm + im[i + k + len / 2] * curRe;
+        re[i + k] = aRe + bRe;
+        im[i + k] = aIm + bIm;
+        re[i + k + len / 2] = aRe - bRe;
+        im[i + k + len / 2] = aIm - bIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+}
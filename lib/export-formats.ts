@@ -0,0 +1,239 @@
+// Encoder argument sets for every export format the recorder can produce.
+// Args are passed to ffmpeg.wasm after the shared PNG sequence input.
+
+export type ExportFormat = 'mp4' | 'webm' | 'gif' | 'webp' | 'apng' | 'png';
+
+export interface EncodeSettings {
+  fps: number;
+  width: number; // Output size
+  height: number;
+  audioFile?: string; // Soundtrack in the ffmpeg FS, looped to the video length
+}
+
+export interface QualityControl {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+  format: (value: number) => string;
+}
+
+// Fast path through the browser's VideoEncoder, see lib/webcodecs-encoder.ts
+export interface WebCodecsSpec {
+  container: 'mp4' | 'webm';
+  codec: string; // WebCodecs codec string
+  muxerCodec: string; // Codec id as the muxer names it
+  // Encoder config derived from the format quality knob
+  config(quality: number): Partial<VideoEncoderConfig>;
+  // Per-frame options, e.g. the quantizer in constant quality mode
+  frameOptions?(quality: number): VideoEncoderEncodeOptions;
+}
+
+export interface ExportFormatSpec {
+  // 'video' goes through ffmpeg, 'frames' zips the captured PNGs as-is
+  kind: 'video' | 'frames';
+  label: string;
+  extension: string;
+  mimeType: string;
+  quality: QualityControl;
+  // Output args for a quality-driven encode
+  encodeArgs?(quality: number, settings: EncodeSettings): string[];
+  // Output args targeting a bitrate, only for codecs that support byte-budget mode
+  bitrateArgs?(bitrate: number, settings: EncodeSettings): string[];
+  // Approximate output size in bytes, when it can be known up front
+  estimateSize?(quality: number, duration: number): number;
+  // Soundtrack encoding, only for containers that carry audio
+  audio?: { args: string[]; bitrate: number };
+  // Tried before ffmpeg when the browser supports it. Byte budgets always use
+  // ffmpeg since the search re-encodes the same frames.
+  webCodecs?: WebCodecsSpec;
+}
+
+// Output size after scaling, rounded to even numbers as yuv420p requires
+export function getOutputSize(width: number, height: number, scale: number) {
+  const even = (v: number) => Math.max(2, Math.round((v * scale) / 2) * 2);
+  return { width: even(width), height: even(height) };
+}
+
+const scaleFilter = ({ width, height }: EncodeSettings) => `scale=${width}:${height}:flags=lanczos`;
+
+// GIF delays are stored in centiseconds, anything above 50fps gets rounded badly
+const MAX_GIF_FPS = 50;
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatSpec> = {
+  mp4: {
+    kind: 'video',
+    label: 'MP4',
+    extension: 'mp4',
+    mimeType: 'video/mp4',
+    quality: {
+      label: 'bitrate',
+      min: 1,
+      max: 50,
+      step: 1,
+      default: 25,
+      format: (v) => `${v} Mbps`,
+    },
+    encodeArgs: (quality, settings) => [
+      '-vf', scaleFilter(settings),
+      '-c:v', 'libx264',
+      '-pix_fmt', 'yuv420p',
+      '-b:v', `${quality * 1000000}`,
+      '-preset', 'ultrafast', // Speed up encoding
+    ],
+    bitrateArgs: (bitrate, settings) => [
+      '-vf', scaleFilter(settings),
+      '-c:v', 'libx264',
+      '-pix_fmt', 'yuv420p',
+      '-b:v', `${bitrate}`,
+      '-preset', 'veryfast',
+      '-movflags', '+faststart',
+    ],
+    estimateSize: (quality, duration) => quality * 1000000 * duration / 8,
+    audio: { args: ['-c:a', 'aac', '-b:a', '128k'], bitrate: 128000 },
+    webCodecs: {
+      container: 'mp4',
+      codec: 'avc1.640034', // High profile, level 5.2
+      muxerCodec: 'avc',
+      config: (quality) => ({
+        bitrate: quality * 1000000,
+        bitrateMode: 'variable',
+        avc: { format: 'avc' },
+      }),
+    },
+  },
+
+  webm: {
+    kind: 'video',
+    label: 'WebM',
+    extension: 'webm',
+    mimeType: 'video/webm',
+    quality: {
+      label: 'crf',
+      min: 4,
+      max: 63,
+      step: 1,
+      default: 32,
+      format: (v) => `${v} (lower = better)`,
+    },
+    // Constant quality mode: VP9 needs -b:v 0 alongside -crf
+    encodeArgs: (quality, settings) => [
+      '-vf', scaleFilter(settings),
+      '-c:v', 'libvpx-vp9',
+      '-pix_fmt', 'yuv420p',
+      '-crf', `${quality}`,
+      '-b:v', '0',
+      '-deadline', 'realtime',
+      '-cpu-used', '8',
+      '-row-mt', '1',
+    ],
+    bitrateArgs: (bitrate, settings) => [
+      '-vf', scaleFilter(settings),
+      '-c:v', 'libvpx-vp9',
+      '-pix_fmt', 'yuv420p',
+      '-b:v', `${bitrate}`,
+      '-deadline', 'good',
+      '-cpu-used', '4',
+      '-row-mt', '1',
+    ],
+    audio: { args: ['-c:a', 'libopus', '-b:a', '96k'], bitrate: 96000 },
+    // Quantizer mode is the closest WebCodecs gets to -crf
+    webCodecs: {
+      container: 'webm',
+      codec: 'vp09.00.51.08', // Profile 0, level 5.1, 8-bit
+      muxerCodec: 'V_VP9',
+      config: () => ({ bitrateMode: 'quantizer' }),
+      frameOptions: (quality) => ({ vp9: { quantizer: quality } }) as VideoEncoderEncodeOptions,
+    },
+  },
+
+  gif: {
+    kind: 'video',
+    label: 'GIF',
+    extension: 'gif',
+    mimeType: 'image/gif',
+    quality: {
+      label: 'colors',
+      min: 2,
+      max: 256,
+      step: 1,
+      default: 128,
+      format: (v) => `${v}`,
+    },
+    // Two-stage palette: palettegen builds an optimized palette from the whole
+    // clip, paletteuse maps every frame onto it
+    encodeArgs: (quality, settings) => [
+      '-vf',
+      `fps=${Math.min(settings.fps, MAX_GIF_FPS)},${scaleFilter(settings)},split[s0][s1];` +
+      `[s0]palettegen=max_colors=${quality}:stats_mode=diff[p];` +
+      '[s1][p]paletteuse=dither=sierra2_4a:diff_mode=rectangle',
+      '-loop', '0',
+    ],
+  },
+
+  webp: {
+    kind: 'video',
+    label: 'WebP',
+    extension: 'webp',
+    mimeType: 'image/webp',
+    quality: {
+      label: 'quality',
+      min: 0,
+      max: 100,
+      step: 1,
+      default: 75,
+      format: (v) => `${v}`,
+    },
+    encodeArgs: (quality, settings) => [
+      '-vf', scaleFilter(settings),
+      '-c:v', 'libwebp',
+      '-lossless', '0',
+      '-quality', `${quality}`,
+      '-compression_level', '4',
+      '-loop', '0',
+      '-an',
+    ],
+  },
+
+  apng: {
+    kind: 'video',
+    label: 'APNG',
+    extension: 'png',
+    mimeType: 'image/apng',
+    // Lossless: the only knob is how hard zlib works
+    quality: {
+      label: 'compression',
+      min: 0,
+      max: 9,
+      step: 1,
+      default: 6,
+      format: (v) => `${v}`,
+    },
+    encodeArgs: (quality, settings) => [
+      '-vf', scaleFilter(settings),
+      '-c:v', 'apng',
+      '-pred', 'mixed',
+      '-compression_level', `${quality}`,
+      '-plays', '0',
+      '-f', 'apng',
+    ],
+  },
+
+  // Zero-padded PNG sequence + JSON sidecar, for editing tools
+  png: {
+    kind: 'frames',
+    label: 'PNG',
+    extension: 'zip',
+    mimeType: 'application/zip',
+    // PNGs are already deflated, so storing is usually as small and much faster
+    quality: {
+      label: 'zip level',
+      min: 0,
+      max: 9,
+      step: 1,
+      default: 0,
+      format: (v) => v === 0 ? 'store' : `${v}`,
+    },
+  },
+};
@@ -0,0 +1,152 @@
+// WebGL2 layer for sketches that declare `contextType: 'webgl2'`. The host
+// keeps the visible canvas 2D (capture, recording and the worker all rely on
+// it) and hands the sketch a GL canvas of the same size; the sketch renders
+// there and composites with `ctx.drawImage(gl.canvas, 0, 0)`.
+
+export type TextureFilter = 'nearest' | 'linear';
+
+export interface SketchGL {
+  readonly gl: WebGL2RenderingContext;
+  readonly canvas: HTMLCanvasElement | OffscreenCanvas;
+  // Compiles and links, throws with the driver log on failure. Without a
+  // vertex shader the quad shader is used, which passes `v_uv` (0..1,
+  // top-left origin) to the fragment shader.
+  createProgram(fragment: string, vertex?: string): WebGLProgram;
+  // Draws a quad covering the viewport with the given program
+  drawQuad(program: WebGLProgram): void;
+  createTexture(filter?: TextureFilter): WebGLTexture;
+  // Images, video frames and canvases, uploaded as RGBA
+  uploadTexture(texture: WebGLTexture, source: TexImageSource): void;
+  // Raw bytes, 1 (R8), 2 (RG8) or 4 (RGBA8) per texel
+  uploadData(texture: WebGLTexture, width: number, height: number, channels: 1 | 2 | 4, data: Uint8Array): void;
+  resize(width: number, height: number): void;
+  destroy(): void;
+}
+
+export const QUAD_VERTEX_SHADER = `#version 300 es
+layout(location = 0) in vec2 a_position;
+out vec2 v_uv;
+void main() {
+  v_uv = vec2(a_position.x * 0.5 + 0.5, 0.5 - a_position.y * 0.5);
+  gl_Position = vec4(a_position, 0.0, 1.0);
+}`;
+
+function createCanvas(width: number, height: number) {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+function compile(gl: WebGL2RenderingContext, type: number, source: string) {
+  const shader = gl.createShader(type);
+  if (!shader) throw new Error('Could not create shader');
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const log = gl.getShaderInfoLog(shader);
+    gl.deleteShader(shader);
+    throw new Error(`Shader compile failed: ${log}`);
+  }
+  return shader;
+}
+
+// Null when WebGL2 is unavailable; callers fall back to Canvas2D. Software
+// rasterizers (SwiftShader, llvmpipe) are fine, nothing here needs extensions.
+export function createSketchGL(width: number, height: number): SketchGL | null {
+  if (typeof WebGL2RenderingContext === 'undefined') return null;
+
+  const canvas = createCanvas(width, height);
+  // Preserved so the sketch can composite a frame it rendered earlier
+  // (throttled sketches don't re-render every frame)
+  const gl = canvas.getContext('webgl2', { preserveDrawingBuffer: true, premultipliedAlpha: false }) as WebGL2RenderingContext | null;
+  if (!gl) return null;
+
+  // Data textures have odd row lengths (e.g. RG8 at 41 columns)
+  gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+
+  const quad = gl.createVertexArray();
+  const buffer = gl.createBuffer();
+  gl.bindVertexArray(quad);
+  gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+  gl.enableVertexAttribArray(0);
+  gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+  gl.bindVertexArray(null);
+
+  const programs: WebGLProgram[] = [];
+  const textures: WebGLTexture[] = [];
+
+  return {
+    gl,
+    canvas,
+
+    createProgram(fragment, vertex = QUAD_VERTEX_SHADER) {
+      const vs = compile(gl, gl.VERTEX_SHADER, vertex);
+      const fs = compile(gl, gl.FRAGMENT_SHADER, fragment);
+      const program = gl.createProgram();
+      gl.attachShader(program, vs);
+      gl.attachShader(program, fs);
+      gl.linkProgram(program);
+      gl.deleteShader(vs);
+      gl.deleteShader(fs);
+      if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+        const log = gl.getProgramInfoLog(program);
+        gl.deleteProgram(program);
+        throw new Error(`Program link failed: ${log}`);
+      }
+      programs.push(program);
+      return program;
+    },
+
+    drawQuad(program) {
+      gl.viewport(0, 0, canvas.width, canvas.height);
+      gl.useProgram(program);
+      gl.bindVertexArray(quad);
+      gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+      gl.bindVertexArray(null);
+    },
+
+    createTexture(filter = 'linear') {
+      const texture = gl.createTexture();
+      const mode = filter === 'nearest' ? gl.NEAREST : gl.LINEAR;
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, mode);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, mode);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+      textures.push(texture);
+      return texture;
+    },
+
+    uploadTexture(texture, source) {
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+    },
+
+    uploadData(texture, width, height, channels, data) {
+      const [internal, format] = {
+        1: [gl.R8, gl.RED],
+        2: [gl.RG8, gl.RG],
+        4: [gl.RGBA8, gl.RGBA],
+      }[channels];
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+      gl.texImage2D(gl.TEXTURE_2D, 0, internal, width, height, 0, format, gl.UNSIGNED_BYTE, data);
+    },
+
+    resize(width, height) {
+      canvas.width = width;
+      canvas.height = height;
+    },
+
+    destroy() {
+      programs.forEach(p => gl.deleteProgram(p));
+      textures.forEach(t => gl.deleteTexture(t));
+      gl.deleteBuffer(buffer);
+      gl.deleteVertexArray(quad);
+      // Browsers cap live contexts, don't wait for GC
+      gl.getExtension('WEBGL_lose_context')?.loseContext();
+    },
+  };
+}
@@ -0,0 +1,96 @@
+// Shareable links: the whole look (sketch, params, palette, seed, export
+// quality) packed into the URL hash as `#v1.<base64url JSON>`.
+
+import { EXPORT_FORMATS, ExportFormat } from '@/lib/export-formats';
+import { normalizeSeed } from '@/lib/random';
+import { SKETCH_PARAMS, SketchKey, isSketchKey } from '@/lib/sketches';
+import { getParamOverrides, isHexColor, sanitizeParams } from '@/lib/sketches/params';
+import { ParamValues } from '@/lib/sketches/types';
+
+const VERSION = 'v1';
+
+export interface PermalinkState {
+  sketch: SketchKey;
+  params: ParamValues; // Overrides of the schema defaults
+  theme: { foreground: string; background: string };
+  seed: number;
+  format: ExportFormat;
+  quality: number;
+}
+
+// Short keys keep the link compact
+interface PayloadV1 {
+  s: string; // sketch
+  p?: Record<string, unknown>; // params, defaults omitted
+  t?: [string, string]; // [foreground, background]
+  r?: number; // seed
+  f?: string; // format
+  q?: number; // quality
+}
+
+function toBase64Url(text: string) {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string) {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+}
+
+export function encodePermalink(state: PermalinkState): string {
+  const payload: PayloadV1 = {
+    s: state.sketch,
+    p: getParamOverrides(SKETCH_PARAMS[state.sketch], state.params),
+    t: [state.theme.foreground, state.theme.background],
+    r: state.seed,
+    f: state.format,
+    q: state.quality,
+  };
+  return `${VERSION}.${toBase64Url(JSON.stringify(payload))}`;
+}
+
+// Lenient on purpose: anything malformed is dropped or clamped so an old or
+// hand-edited link still opens. Returns null when there's nothing usable.
+export function decodePermalink(hash: string): Partial<PermalinkState> | null {
+  const [version, data] = hash.replace(/^#/, '').split('.', 2);
+  if (version !== VERSION || !data) return null;
+
+  let payload: PayloadV1;
+  try {
+    payload = JSON.parse(fromBase64Url(data));
+  } catch {
+    return null;
+  }
+  if (!payload || typeof payload !== 'object' || typeof payload.s !== 'string' || !isSketchKey(payload.s)) {
+    return null;
+  }
+
+  const state: Partial<PermalinkState> = { sketch: payload.s };
+
+  if (payload.p && typeof payload.p === 'object' && !Array.isArray(payload.p)) {
+    state.params = sanitizeParams(SKETCH_PARAMS[payload.s], payload.p);
+  }
+
+  if (Array.isArray(payload.t) && isHexColor(payload.t[0]) && isHexColor(payload.t[1])) {
+    state.theme = { foreground: payload.t[0], background: payload.t[1] };
+  }
+
+  if (typeof payload.r === 'number' && Number.isFinite(payload.r)) {
+    state.seed = normalizeSeed(payload.r);
+  }
+
+  if (typeof payload.f === 'string' && Object.hasOwn(EXPORT_FORMATS, payload.f)) {
+    const format = payload.f as ExportFormat;
+    state.format = format;
+    if (typeof payload.q === 'number' && Number.isFinite(payload.q)) {
+      const { min, max } = EXPORT_FORMATS[format].quality;
+      state.quality = Math.min(max, Math.max(min, payload.q));
+    }
+  }
+
+  return state;
+}
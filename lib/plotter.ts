@@ -0,0 +1,307 @@
+// Pen-plotter output: polylines from a sketch are fitted to the paper,
+// simplified (Ramer-Douglas-Peucker) and ordered to cut pen-up travel, then
+// written as layered SVG (Inkscape / AxiDraw), HPGL or G-code.
+
+// Polyline in sketch units (flat [x0, y0, x1, y1, ...], y down). Paths
+// sharing a layer are drawn with the same pen.
+export interface PlotPath {
+  layer: string;
+  points: number[];
+}
+
+export type PaperSize = 'A5' | 'A4' | 'A3' | 'Letter';
+
+// Portrait, in mm
+export const PAPER_SIZES: Record<PaperSize, { width: number; height: number }> = {
+  A5: { width: 148, height: 210 },
+  A4: { width: 210, height: 297 },
+  A3: { width: 297, height: 420 },
+  Letter: { width: 215.9, height: 279.4 },
+};
+
+export interface PlotSettings {
+  paper: PaperSize;
+  orientation: 'portrait' | 'landscape';
+  margin: number; // mm on every side
+  speed: number; // Pen-down speed, mm/s
+  tolerance: number; // Max deviation allowed by simplification, mm (0 = off)
+  optimize: boolean; // Reorder / reverse paths to minimize travel
+}
+
+export const DEFAULT_PLOT_SETTINGS: PlotSettings = {
+  paper: 'A4',
+  orientation: 'portrait',
+  margin: 20,
+  speed: 25,
+  tolerance: 0.05,
+  optimize: true,
+};
+
+// Pen-up moves are faster than drawing, lifts cost a fixed time each
+const TRAVEL_SPEED_FACTOR = 2;
+const PEN_LIFT_TIME = 0.3; // seconds, up + down
+// Paths ending this close to where they start are treated as loops
+const CLOSED_EPSILON = 0.01; // mm
+
+export interface PlotPlan {
+  width: number; // Paper, mm
+  height: number;
+  // Paths in plot order, in mm from the top-left paper corner
+  layers: { name: string; paths: number[][] }[];
+  // Pen-up moves as [x0, y0, x1, y1], including leaving and returning home
+  travel: number[][];
+  stats: {
+    paths: number;
+    points: number;
+    drawLength: number; // mm
+    travelLength: number; // mm
+    duration: number; // Estimated seconds
+  };
+}
+
+const distance = (x0: number, y0: number, x1: number, y1: number) => Math.hypot(x1 - x0, y1 - y0);
+
+function pathLength(points: number[]) {
+  let length = 0;
+  for (let i = 2; i < points.length; i += 2) length += distance(points[i - 2], points[i - 1], points[i], points[i + 1]);
+  return length;
+}
+
+// Ramer-Douglas-Peucker, iterative so long curves don't blow the stack
+export function simplify(points: number[], tolerance: number): number[] {
+  const count = points.length / 2;
+  if (tolerance <= 0 || count < 3) return points;
+
+  const keep = new Uint8Array(count);
+  keep[0] = keep[count - 1] = 1;
+  const stack: [number, number][] = [[0, count - 1]];
+
+  while (stack.length) {
+    const [first, last] = stack.pop()!;
+    const ax = points[first * 2], ay = points[first * 2 + 1];
+    const bx = points[last * 2], by = points[last * 2 + 1];
+    const dx = bx - ax, dy = by - ay;
+    const length = Math.hypot(dx, dy);
+
+    let maxDistance = 0;
+    let index = -1;
+    for (let i = first + 1; i < last; i++) {
+      const px = points[i * 2], py = points[i * 2 + 1];
+      // Distance to the chord, or to its start when the chord is degenerate (loops)
+      const d = length > 0 ? Math.abs(dy * px - dx * py + bx * ay - by * ax) / length : distance(ax, ay, px, py);
+      if (d > maxDistance) {
+        maxDistance = d;
+        index = i;
+      }
+    }
+
+    if (index !== -1 && maxDistance > tolerance) {
+      keep[index] = 1;
+      stack.push([first, index], [index, last]);
+    }
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < count; i++) {
+    if (keep[i]) result.push(points[i * 2], points[i * 2 + 1]);
+  }
+  return result;
+}
+
+const isClosed = (points: number[]) =>
+  points.length >= 6 && distance(points[0], points[1], points[points.length - 2], points[points.length - 1]) < CLOSED_EPSILON;
+
+// Start a loop at vertex `index` (same shape, different pen-down point)
+function rotateLoop(points: number[], index: number) {
+  const open = points.slice(0, -2);
+  const rotated = [...open.slice(index * 2), ...open.slice(0, index * 2)];
+  return [...rotated, rotated[0], rotated[1]];
+}
+
+function reversePath(points: number[]) {
+  const reversed: number[] = [];
+  for (let i = points.length - 2; i >= 0; i -= 2) reversed.push(points[i], points[i + 1]);
+  return reversed;
+}
+
+// Greedy nearest neighbour: from the pen position, take the closest path
+// start (either end of open paths, any vertex of loops)
+function orderPaths(paths: number[][], from: { x: number; y: number }) {
+  const remaining = [...paths];
+  const ordered: number[][] = [];
+  let { x, y } = from;
+
+  while (remaining.length) {
+    let best = { index: 0, distance: Infinity, vertex: 0, reverse: false };
+    remaining.forEach((points, index) => {
+      const consider = (vertex: number, reverse: boolean) => {
+        const d = distance(x, y, points[vertex * 2], points[vertex * 2 + 1]);
+        if (d < best.distance) best = { index, distance: d, vertex, reverse };
+      };
+      if (isClosed(points)) {
+        for (let v = 0; v < points.length / 2 - 1; v++) consider(v, false);
+      } else {
+        consider(0, false);
+        consider(points.length / 2 - 1, true);
+      }
+    });
+
+    let next = remaining.splice(best.index, 1)[0];
+    if (isClosed(next)) next = rotateLoop(next, best.vertex);
+    else if (best.reverse) next = reversePath(next);
+    ordered.push(next);
+    x = next[next.length - 2];
+    y = next[next.length - 1];
+  }
+  return ordered;
+}
+
+export function planPlot(paths: PlotPath[], settings: PlotSettings): PlotPlan {
+  const paper = PAPER_SIZES[settings.paper];
+  const [width, height] = settings.orientation === 'portrait'
+    ? [paper.width, paper.height]
+    : [paper.height, paper.width];
+
+  // Fit the drawing into the printable area, uniformly scaled and centered
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const { points } of paths) {
+    for (let i = 0; i < points.length; i += 2) {
+      minX = Math.min(minX, points[i]);
+      maxX = Math.max(maxX, points[i]);
+      minY = Math.min(minY, points[i + 1]);
+      maxY = Math.max(maxY, points[i + 1]);
+    }
+  }
+  const areaW = Math.max(0, width - settings.margin * 2);
+  const areaH = Math.max(0, height - settings.margin * 2);
+  const scale = Math.min(areaW / (maxX - minX || 1), areaH / (maxY - minY || 1));
+  const offsetX = (width - (maxX - minX) * scale) / 2 - minX * scale;
+  const offsetY = (height - (maxY - minY) * scale) / 2 - minY * scale;
+
+  // Group by layer, keeping the order layers first appear in
+  const grouped = new Map<string, number[][]>();
+  for (const path of paths) {
+    if (path.points.length < 4) continue;
+    const points = simplify(path.points.map((v, i) => i % 2 === 0 ? v * scale + offsetX : v * scale + offsetY), settings.tolerance);
+    if (!grouped.has(path.layer)) grouped.set(path.layer, []);
+    grouped.get(path.layer)!.push(points);
+  }
+
+  // Home is the top-left paper corner (AxiDraw's origin), every format
+  // returns there at the end
+  let pen = { x: 0, y: 0 };
+  const layers: PlotPlan['layers'] = [];
+  const travel: number[][] = [];
+  let drawLength = 0;
+  let pointCount = 0;
+
+  for (const [name, layerPaths] of grouped) {
+    const ordered = settings.optimize ? orderPaths(layerPaths, pen) : layerPaths;
+    for (const points of ordered) {
+      travel.push([pen.x, pen.y, points[0], points[1]]);
+      drawLength += pathLength(points);
+      pointCount += points.length / 2;
+      pen = { x: points[points.length - 2], y: points[points.length - 1] };
+    }
+    layers.push({ name, paths: ordered });
+  }
+  travel.push([pen.x, pen.y, 0, 0]);
+
+  const travelLength = travel.reduce((sum, [x0, y0, x1, y1]) => sum + distance(x0, y0, x1, y1), 0);
+  const pathCount = layers.reduce((sum, layer) => sum + layer.paths.length, 0);
+
+  return {
+    width,
+    height,
+    layers,
+    travel,
+    stats: {
+      paths: pathCount,
+      points: pointCount,
+      drawLength,
+      travelLength,
+      duration: drawLength / settings.speed + travelLength / (settings.speed * TRAVEL_SPEED_FACTOR) + pathCount * PEN_LIFT_TIME,
+    },
+  };
+}
+
+// --- Output ---
+
+const mm = (v: number) => Number(v.toFixed(3)).toString();
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// One Inkscape layer per pen, sized in mm so the plot comes out 1:1
+export function plotToSvg(plan: PlotPlan): string {
+  const lines = [
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape" ` +
+    `width="${mm(plan.width)}mm" height="${mm(plan.height)}mm" viewBox="0 0 ${mm(plan.width)} ${mm(plan.height)}">`,
+  ];
+  plan.layers.forEach((layer, i) => {
+    // AxiDraw plots layers by their leading number
+    lines.push(`<g inkscape:groupmode="layer" inkscape:label="${i + 1} ${escapeXml(layer.name)}" fill="none" stroke="#000" stroke-width="0.3">`);
+    for (const points of layer.paths) {
+      const coords: string[] = [];
+      for (let j = 0; j < points.length; j += 2) coords.push(`${mm(points[j])},${mm(points[j + 1])}`);
+      lines.push(`<polyline points="${coords.join(' ')}"/>`);
+    }
+    lines.push('</g>');
+  });
+  lines.push('</svg>');
+  return lines.join('\n');
+}
+
+// HPGL: 40 plotter units per mm, origin bottom-left, one pen per layer
+const HPGL_UNITS = 40;
+
+export function plotToHpgl(plan: PlotPlan, settings: PlotSettings): string {
+  const unit = (x: number, y: number) => `${Math.round(x * HPGL_UNITS)},${Math.round((plan.height - y) * HPGL_UNITS)}`;
+  // VS takes cm/s
+  const commands = ['IN', `VS${mm(settings.speed / 10)}`];
+
+  plan.layers.forEach((layer, i) => {
+    commands.push(`SP${i + 1}`);
+    for (const points of layer.paths) {
+      const coords: string[] = [];
+      for (let j = 2; j < points.length; j += 2) coords.push(unit(points[j], points[j + 1]));
+      commands.push(`PU${unit(points[0], points[1])}`, `PD${coords.join(',')}`);
+    }
+  });
+
+  commands.push(`PU${unit(0, 0)}`, 'SP0');
+  return commands.join(';\n') + ';\n';
+}
+
+// G-code for Z-axis pen lifts (GRBL-style plotters), origin bottom-left.
+// Layers after the first pause with M0 for a pen change.
+const PEN_UP_Z = 5;
+const PEN_DOWN_Z = 0;
+
+export function plotToGcode(plan: PlotPlan, settings: PlotSettings): string {
+  const xy = (x: number, y: number) => `X${mm(x)} Y${mm(plan.height - y)}`;
+  const drawFeed = Math.round(settings.speed * 60);
+  const travelFeed = Math.round(settings.speed * TRAVEL_SPEED_FACTOR * 60);
+
+  const lines = [
+    `; ${plan.stats.paths} paths, ${(plan.stats.drawLength / 1000).toFixed(2)} m drawn, ${settings.paper} ${settings.orientation}`,
+    'G21 ; mm',
+    'G90 ; absolute',
+    `G0 Z${PEN_UP_Z}`,
+  ];
+
+  plan.layers.forEach((layer, i) => {
+    lines.push(`; layer ${i + 1}: ${layer.name}`);
+    if (i > 0) lines.push(`M0 ; change pen for ${layer.name}`);
+    for (const points of layer.paths) {
+      lines.push(`G0 ${xy(points[0], points[1])} F${travelFeed}`, `G1 Z${PEN_DOWN_Z} F${travelFeed}`);
+      for (let j = 2; j < points.length; j += 2) {
+        lines.push(`G1 ${xy(points[j], points[j + 1])}${j === 2 ? ` F${drawFeed}` : ''}`);
+      }
+      lines.push(`G0 Z${PEN_UP_Z}`);
+    }
+  });
+
+  lines.push(`G0 ${xy(0, 0)}`, 'M2');
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,147 @@
+// User presets: full sketch configurations persisted in localStorage, with
+// JSON import/export. Exposed as an external store for useSyncExternalStore.
+
+import { normalizeSeed } from '@/lib/random';
+import { cloneParamValue, isHexColor } from '@/lib/sketches/params';
+import { ParamSchema, ParamValue, ParamValues } from '@/lib/sketches/types';
+
+export interface Preset {
+  id: string;
+  name: string;
+  sketch: string; // Registry key
+  params: ParamValues;
+  theme?: { foreground: string; background: string };
+  seed?: number;
+}
+
+const STORAGE_KEY = '256kb:presets';
+// Bump when the file layout changes
+const FILE_VERSION = 1;
+
+const EMPTY: Preset[] = [];
+let cache: Preset[] | null = null;
+const listeners = new Set<() => void>();
+
+export const createPresetId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// File params hold object URLs that die with the page, never persist them
+export function persistableParams(schema: ParamSchema = [], values: ParamValues): ParamValues {
+  const result: ParamValues = {};
+  for (const def of schema) {
+    if (def.type === 'file' || !(def.key in values)) continue;
+    result[def.key] = cloneParamValue(values[def.key]);
+  }
+  return result;
+}
+
+const isParamValue = (value: unknown): value is ParamValue =>
+  value === null ||
+  typeof value === 'number' ||
+  typeof value === 'string' ||
+  typeof value === 'boolean' ||
+  (Array.isArray(value) && value.every(v => typeof v === 'number')) ||
+  // Keyframes: flat objects of numbers
+  (Array.isArray(value) && value.every(v =>
+    !!v && typeof v === 'object' && !Array.isArray(v) && Object.values(v).every(n => typeof n === 'number')));
+
+// Shape check for presets coming from storage or a user file
+function toPreset(raw: unknown): Preset | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const { id, name, sketch, params, theme, seed } = raw as Record<string, unknown>;
+  if (typeof name !== 'string' || typeof sketch !== 'string') return null;
+  if (!params || typeof params !== 'object' || Array.isArray(params)) return null;
+
+  const values: ParamValues = {};
+  for (const [key, value] of Object.entries(params)) {
+    if (isParamValue(value)) values[key] = value;
+  }
+
+  const preset: Preset = {
+    id: typeof id === 'string' && id ? id : createPresetId(),
+    name: name.trim() || 'untitled',
+    sketch,
+    params: values,
+  };
+  if (theme && typeof theme === 'object') {
+    const { foreground, background } = theme as Record<string, unknown>;
+    if (isHexColor(foreground) && isHexColor(background)) {
+      preset.theme = { foreground, background };
+    }
+  }
+  if (typeof seed === 'number' && Number.isFinite(seed)) preset.seed = normalizeSeed(seed);
+  return preset;
+}
+
+function read(): Preset[] {
+  if (typeof localStorage === 'undefined') return EMPTY;
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(raw) ? raw.map(toPreset).filter((p): p is Preset => !!p) : EMPTY;
+  } catch {
+    return EMPTY;
+  }
+}
+
+export const presetStore = {
+  subscribe(listener: () => void) {
+    listeners.add(listener);
+    // Keep other tabs in sync
+    const onStorage = (e: StorageEvent) => {
+      if (e.key !== STORAGE_KEY) return;
+      cache = null;
+      listener();
+    };
+    window.addEventListener('storage', onStorage);
+    return () => {
+      listeners.delete(listener);
+      window.removeEventListener('storage', onStorage);
+    };
+  },
+
+  getSnapshot(): Preset[] {
+    if (!cache) cache = read();
+    return cache;
+  },
+
+  getServerSnapshot(): Preset[] {
+    return EMPTY;
+  },
+
+  set(presets: Preset[]) {
+    cache = presets;
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+    } catch (e) {
+      console.error("Saving presets failed:", e);
+    }
+    listeners.forEach(listener => listener());
+  },
+};
+
+export function serializePresets(presets: Preset[]): string {
+  return JSON.stringify({ version: FILE_VERSION, presets }, null, 2);
+}
+
+// Accepts an exported file (or a bare array / single preset). Imported presets
+// get fresh ids so they never clobber existing ones.
+export function parsePresets(text: string): Preset[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Preset file is not valid JSON');
+  }
+
+  const list = Array.isArray(raw)
+    ? raw
+    : raw && typeof raw === 'object' && Array.isArray((raw as { presets?: unknown }).presets)
+      ? (raw as { presets: unknown[] }).presets
+      : [raw];
+
+  const presets = list.map(toPreset).filter((p): p is Preset => !!p);
+  if (presets.length === 0) throw new Error('No presets found in file');
+  return presets.map(p => ({ ...p, id: createPresetId() }));
+}
@@ -0,0 +1,111 @@
+// Seeded randomness for sketches. Everything here is a pure function of the
+// seed, so the same seed + params render the same frames on every machine.
+
+export interface Random {
+  readonly seed: number;
+
+  // Sequential stream, restarted whenever the sketch is set up and rewound
+  // with it on loop wraps and seeks, so seeks draw the export's values.
+  // Realtime frame counts vary: during playback only values drawn in setup
+  // match the export, prefer the stateless functions below in draw().
+  value(): number; // [0, 1)
+  range(min: number, max: number): number;
+  int(min: number, max: number): number; // Inclusive
+  pick<T>(items: readonly T[]): T;
+
+  // Stateless: same inputs -> same output, regardless of call order.
+  // Prefer these for per-cell / per-frame choices.
+  hash(...keys: number[]): number; // [0, 1)
+  noise2D(x: number, y: number): number; // [-1, 1]
+  noise3D(x: number, y: number, z: number): number; // [-1, 1]
+}
+
+// Keep seeds in the uint32 range the generators work with
+export const normalizeSeed = (seed: number) => (Math.floor(Math.abs(seed)) % 0x100000000) >>> 0;
+
+export const randomSeed = () => Math.floor(Math.random() * 1000000);
+
+// Runner side: the stream position can be saved and restored, so checkpoints
+// and loop wraps rewind it along with the sketch
+export interface SeekableRandom extends Random {
+  getState(): number;
+  setState(state: number): void;
+}
+
+// mulberry32: tiny, fast and good enough for visuals
+function mulberry32(seed: number) {
+  let a = seed >>> 0;
+  return {
+    next() {
+      a = (a + 0x6D2B79F5) >>> 0;
+      let t = a;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    get: () => a,
+    set: (state: number) => { a = state >>> 0; },
+  };
+}
+
+// Integer hash (murmur3 finalizer) over the seed and any number of keys.
+// Non-integer keys are quantized so float noise in coordinates doesn't matter.
+function hashKeys(seed: number, keys: number[]) {
+  let h = seed ^ 0x9E3779B9;
+  for (const key of keys) {
+    h = Math.imul(h ^ (Math.round(key * 1024) | 0), 0x85EBCA6B);
+    h ^= h >>> 13;
+    h = Math.imul(h, 0xC2B2AE35);
+    h ^= h >>> 16;
+  }
+  return (h >>> 0) / 4294967296;
+}
+
+const fade = (t: number) => t * t * (3 - 2 * t);
+const mix = (a: number, b: number, t: number) => a + (b - a) * t;
+
+export function createRandom(seed: number): SeekableRandom {
+  const normalized = normalizeSeed(seed);
+  const stream = mulberry32(normalized);
+  const next = stream.next;
+  // Lattice values for value noise, in [-1, 1]
+  const lattice = (...keys: number[]) => hashKeys(normalized, keys) * 2 - 1;
+
+  const random: SeekableRandom = {
+    seed: normalized,
+    getState: stream.get,
+    setState: stream.set,
+    value: next,
+    range: (min, max) => min + next() * (max - min),
+    int: (min, max) => Math.floor(min + next() * (max - min + 1)),
+    pick: (items) => items[Math.floor(next() * items.length)],
+    hash: (...keys) => hashKeys(normalized, keys),
+
+    noise2D(x, y) {
+      const x0 = Math.floor(x), y0 = Math.floor(y);
+      const tx = fade(x - x0), ty = fade(y - y0);
+      return mix(
+        mix(lattice(x0, y0), lattice(x0 + 1, y0), tx),
+        mix(lattice(x0, y0 + 1), lattice(x0 + 1, y0 + 1), tx),
+        ty
+      );
+    },
+
+    noise3D(x, y, z) {
+      const z0 = Math.floor(z);
+      const tz = fade(z - z0);
+      const layer = (zi: number) => {
+        const x0 = Math.floor(x), y0 = Math.floor(y);
+        const tx = fade(x - x0), ty = fade(y - y0);
+        return mix(
+          mix(lattice(x0, y0, zi), lattice(x0 + 1, y0, zi), tx),
+          mix(lattice(x0, y0 + 1, zi), lattice(x0 + 1, y0 + 1, zi), tx),
+          ty
+        );
+      };
+      return mix(layer(z0), layer(z0 + 1), tz);
+    },
+  };
+
+  return random;
+}
@@ -0,0 +1,267 @@
+// Drives one run of a sketch: setup, per-frame contexts, realtime playback
+// with a transport (pause, speed, seek, frame step) and offline stepping.
+// Shared by CanvasSketch and the sketch worker so both behave the same.
+
+import type { AudioAnalyzer, AudioFeatures } from '@/lib/audio';
+import { SketchGL, createSketchGL } from '@/lib/gl';
+import { SeekableRandom, createRandom } from '@/lib/random';
+import type { Sketch, SketchContext } from '@/lib/sketches/types';
+
+export interface Transport {
+  playing: boolean;
+  speed: number; // Realtime playback rate, 1 = wall clock
+  fps: number; // Frame rate seeks replay at, the export rate
+}
+
+export const DEFAULT_TRANSPORT: Transport = { playing: true, speed: 1, fps: 60 };
+
+export type SeekTarget = { time: number } | { frames: number };
+
+export interface SketchRunnerOptions {
+  sketch: Sketch;
+  ctx: CanvasRenderingContext2D;
+  width: number;
+  height: number;
+  duration: number;
+  seed: number;
+  transport?: Transport; // Realtime runs only
+  // Resolved per frame, the host palette may change while running
+  theme: () => SketchContext['theme'];
+  // Realtime or offline analysis of the soundtrack, per the run's mode
+  analyzer?: AudioAnalyzer | null;
+  // Seeks replay with a fresh offline analyzer so they match exports
+  createReplayAnalyzer?: () => AudioAnalyzer;
+  // Applies audio-mapped params before the sketch sees a frame
+  modulate?: (features: AudioFeatures) => void;
+  onUpdate?: (time: number, fps: number) => void;
+  // Playback toggled, speed changed, seeked or wrapped to the loop start
+  onTransport?: (transport: Transport, time: number) => void;
+}
+
+// Seek replays are resumed from the closest checkpoint
+const CHECKPOINT_INTERVAL = 30; // frames
+
+// State before drawing a frame: sketch.snapshot() (if seekable) and the
+// position of ctx.random's sequential stream
+interface Checkpoint {
+  state: unknown;
+  random: number;
+}
+
+export class SketchRunner {
+  readonly gl: SketchGL | null;
+  time = 0;
+
+  private transport: Transport;
+  private random: SeekableRandom;
+  private frame = 0;
+  private lastNow: number | null = null;
+  private fps = 0;
+  // Frame index -> state taken before drawing that frame
+  private checkpoints = new Map<number, Checkpoint>();
+  private seeking = 0;
+
+  constructor(private options: SketchRunnerOptions) {
+    this.transport = options.transport ?? DEFAULT_TRANSPORT;
+    // Fresh stream per run so every setup sees the same sequence
+    this.random = createRandom(options.seed);
+    this.gl = options.sketch.contextType === 'webgl2' ? createSketchGL(options.width, options.height) : null;
+  }
+
+  get playing() {
+    return this.transport.playing;
+  }
+
+  // Snapshots need both hooks, otherwise seeks only move ctx.time
+  private get seekable() {
+    const { sketch } = this.options;
+    return !!sketch.snapshot && !!sketch.restore;
+  }
+
+  private get loopFrames() {
+    return Math.max(1, Math.round(this.options.duration * this.transport.fps));
+  }
+
+  private createContext(time: number, deltaTime: number, features: AudioFeatures | null = null): SketchContext {
+    const { ctx, width, height, duration, theme } = this.options;
+    return {
+      ctx,
+      gl: this.gl,
+      width,
+      height,
+      time,
+      deltaTime,
+      duration,
+      frame: this.frame,
+      random: this.random,
+      audio: features,
+      theme: theme(),
+    };
+  }
+
+  // Analyse audio and apply mapped params before the sketch sees the frame
+  private frameContext(time: number, deltaTime: number, analyzer = this.options.analyzer) {
+    const features = analyzer?.analyze(time) ?? null;
+    if (features) this.options.modulate?.(features);
+    return this.createContext(time, deltaTime, features);
+  }
+
+  private notify() {
+    this.options.sketch.onPlayback?.(this.transport.playing, this.transport.speed);
+    this.options.onTransport?.(this.transport, this.time);
+  }
+
+  // Realtime runs can start at a later time, e.g. restarts after a seed or
+  // palette change pick up where the previous run was
+  start(time = 0) {
+    const { sketch, transport } = this.options;
+    sketch.setup(this.createContext(0, 0));
+    this.checkpoints.set(0, this.checkpoint());
+    // Realtime runs only, offline ones are stepped by the host
+    if (!transport) return;
+    this.notify();
+    // Paused runs still show their first frame
+    if (!transport.playing || time > 0) this.redraw(time);
+  }
+
+  destroy() {
+    this.seeking++;
+    this.options.sketch.destroy?.();
+    this.gl?.destroy();
+  }
+
+  // Canvas size changed (the caller resized it): the run carries on at the
+  // new size instead of starting over
+  resize(width: number, height: number) {
+    this.options = { ...this.options, width, height };
+    this.gl?.resize(width, height);
+    this.options.sketch.resize?.(width, height);
+    // Resizing clears the canvas, paused runs redraw the frame they're on
+    if (!this.transport.playing) this.redraw(this.time);
+  }
+
+  // Realtime: called every animation frame with its timestamp (ms)
+  tick(now: number) {
+    const elapsed = this.lastNow === null ? 0 : (now - this.lastNow) / 1000;
+    this.lastNow = now;
+    if (!this.transport.playing || this.seeking > 0) return;
+
+    const { sketch, duration } = this.options;
+    const deltaTime = elapsed * this.transport.speed;
+    this.time += deltaTime;
+
+    // Every pass over the loop starts from the same state, like the export does
+    if (this.time >= duration) {
+      this.time %= duration;
+      this.frame = 0;
+      this.restore(0);
+      this.notify();
+    }
+
+    this.frame++;
+    sketch.draw(this.frameContext(this.time, deltaTime));
+
+    if (elapsed > 0) this.fps = Math.round(1 / elapsed);
+    this.options.onUpdate?.(this.time, this.fps);
+  }
+
+  // Offline: render frame N at time N * deltaTime, then advance to N + 1.
+  // Frame time is derived from the frame index, never from the wall clock.
+  async renderNext(deltaTime: number) {
+    const { sketch, onUpdate } = this.options;
+    const time = this.frame * deltaTime;
+    this.frame++;
+
+    const context = this.frameContext(time, deltaTime);
+    if (sketch.prepareFrame) await sketch.prepareFrame(context);
+    sketch.draw(context);
+
+    onUpdate?.(time, Math.round(1 / deltaTime));
+  }
+
+  setTransport(transport: Transport) {
+    const previous = this.transport;
+    this.transport = transport;
+    if (transport.fps !== previous.fps) this.invalidate();
+    if (transport.playing !== previous.playing || transport.speed !== previous.speed) this.notify();
+  }
+
+  // Params changed: cached checkpoints no longer match what a replay would
+  // draw, and paused runs redraw the frame they're on with the new params
+  invalidate() {
+    const initial = this.checkpoints.get(0);
+    this.checkpoints.clear();
+    if (initial === undefined) return;
+    this.checkpoints.set(0, initial);
+    if (!this.transport.playing) this.redraw(this.time);
+  }
+
+  private checkpoint(): Checkpoint {
+    const { sketch } = this.options;
+    return { state: this.seekable ? sketch.snapshot!() : undefined, random: this.random.getState() };
+  }
+
+  private restore(frame: number) {
+    const { state, random } = this.checkpoints.get(frame)!;
+    this.random.setState(random);
+    if (this.seekable) this.options.sketch.restore!(state);
+  }
+
+  // Seek for the runner's own redraws, nobody awaits these
+  private redraw(time: number) {
+    this.seek({ time }).catch((e) => console.error("Sketch seek failed:", e));
+  }
+
+  // Show the frame the export would show at a time (or a number of frames
+  // away from the current one), wrapping around the loop. Snapshot-capable
+  // sketches are replayed at the export frame rate from the closest
+  // checkpoint, so per-frame state matches too.
+  async seek(target: SeekTarget) {
+    const { sketch, createReplayAnalyzer } = this.options;
+    const fps = this.transport.fps;
+    const deltaTime = 1 / fps;
+    const total = this.loopFrames;
+    const requested = 'time' in target
+      ? Math.round(target.time * fps)
+      : Math.round(this.time * fps) + target.frames;
+    const index = ((requested % total) + total) % total;
+
+    const token = ++this.seeking;
+    try {
+      // A fresh analyzer only lines up with a replay from the loop start
+      const analyzer = createReplayAnalyzer?.() ?? null;
+      let from = 0;
+
+      if (this.seekable) {
+        if (!analyzer) {
+          for (const frame of this.checkpoints.keys()) {
+            if (frame <= index && frame > from) from = frame;
+          }
+        }
+        this.restore(from);
+
+        for (let i = from; i < index; i++) {
+          this.frame = i + 1;
+          sketch.draw(this.frameContext(i * deltaTime, deltaTime, analyzer));
+          if (!analyzer && (i + 1) % CHECKPOINT_INTERVAL === 0) this.checkpoints.set(i + 1, this.checkpoint());
+        }
+      } else if (analyzer) {
+        // Keep beat detection and smoothing primed for the target frame
+        for (let i = 0; i < index; i++) analyzer.analyze(i * deltaTime);
+      }
+
+      this.frame = index + 1;
+      const context = this.frameContext(index * deltaTime, deltaTime, analyzer);
+      if (sketch.prepareFrame) await sketch.prepareFrame(context);
+      // A newer seek (or teardown) took over while this one waited
+      if (token !== this.seeking) return;
+
+      sketch.draw(context);
+      this.time = index * deltaTime;
+      this.notify();
+      this.options.onUpdate?.(this.time, this.fps);
+    } finally {
+      if (token === this.seeking) this.seeking = 0;
+    }
+  }
+}
@@ -0,0 +1,193 @@
+// Worker side of CanvasSketch's worker mode: owns an OffscreenCanvas and runs
+// a sketch from the registry off the main thread. Main thread <-> worker
+// traffic is limited to the messages below.
+
+import { SKETCHES, isSketchKey } from '@/lib/sketches';
+import { applyParams } from '@/lib/sketches/params';
+import { DEFAULT_TRANSPORT, SeekTarget, SketchRunner, Transport } from '@/lib/sketch-runner';
+import type { VectorScene } from '@/lib/vector';
+import type { PlotPath } from '@/lib/plotter';
+import { ParamValue, ParamValues, Sketch, SketchKeyEvent, SketchPointerEvent, SketchWheelEvent } from '@/lib/sketches/types';
+
+export interface SketchWorkerConfig {
+  width: number;
+  height: number;
+  duration: number;
+  seed: number;
+  theme: { foreground: string; background: string };
+}
+
+export type SketchWorkerInput =
+  | { type: 'pointerdown' | 'pointermove' | 'pointerup'; event: SketchPointerEvent }
+  | { type: 'wheel'; event: SketchWheelEvent }
+  | { type: 'keydown' | 'keyup'; event: SketchKeyEvent };
+
+export type SketchWorkerRequest =
+  | { type: 'init'; canvas: OffscreenCanvas; sketch: string }
+  | { type: 'config'; config: SketchWorkerConfig }
+  | { type: 'params'; params: ParamValues }
+  | { type: 'transport'; transport: Transport }
+  | { type: 'seek'; id: number; target: SeekTarget }
+  | { type: 'input'; input: SketchWorkerInput }
+  | { type: 'capture'; id: number; mimeType: string }
+  | { type: 'scene'; id: number }
+  | { type: 'plot'; id: number; source: string };
+
+export type SketchWorkerResponse =
+  | { type: 'stats'; time: number; fps: number }
+  | { type: 'seek'; id: number }
+  | { type: 'capture'; id: number; blob?: Blob; error?: string }
+  | { type: 'scene'; id: number; scene: VectorScene | null }
+  | { type: 'plot'; id: number; paths: PlotPath[] }
+  | { type: 'param'; key: string; value: ParamValue }
+  // id is set when the failing message was a request
+  | { type: 'error'; id?: number; message: string };
+
+// Stats are for display, no need to flood the main thread every frame
+const STATS_INTERVAL = 100; // ms
+
+const post = (message: SketchWorkerResponse) => self.postMessage(message);
+
+// Not every worker has rAF (Safari), fall back to a 60Hz timer
+const hasAnimationFrame = typeof requestAnimationFrame === 'function';
+const nextFrame = (callback: (now: number) => void): number =>
+  hasAnimationFrame
+    ? requestAnimationFrame(callback)
+    : Number(setTimeout(() => callback(performance.now()), 1000 / 60));
+const cancelFrame = (id: number) => hasAnimationFrame ? cancelAnimationFrame(id) : clearTimeout(id);
+
+let canvas: OffscreenCanvas | null = null;
+let sketch: Sketch | null = null;
+let config: SketchWorkerConfig | null = null;
+let params: ParamValues = {};
+let transport: Transport = DEFAULT_TRANSPORT;
+let animationFrameId = 0;
+let runner: SketchRunner | null = null;
+
+// Same lifecycle as the main-thread loop: every config change is a fresh
+// setup, params are re-applied on top
+function start() {
+  if (!canvas || !sketch || !config) return;
+  cancelFrame(animationFrameId);
+  // A restart (new seed, palette or duration) carries on from the same time
+  const resume = runner?.time ?? 0;
+  runner?.destroy();
+  runner = null;
+
+  const { width, height, duration, seed, theme } = config;
+  canvas.width = width;
+  canvas.height = height;
+  // The 2D APIs sketches use are shared between both context types
+  const ctx = canvas.getContext('2d') as unknown as CanvasRenderingContext2D | null;
+  if (!ctx) {
+    post({ type: 'error', message: 'OffscreenCanvas 2D context unavailable' });
+    return;
+  }
+
+  let lastStats = -Infinity;
+  const running = new SketchRunner({
+    sketch,
+    ctx,
+    width,
+    height,
+    duration,
+    seed,
+    transport,
+    theme: () => theme,
+    onUpdate: (time, fps) => {
+      // Updates while paused come from seeks, always worth showing
+      const now = performance.now();
+      if (running.playing && now - lastStats < STATS_INTERVAL) return;
+      lastStats = now;
+      post({ type: 'stats', time, fps });
+    },
+  });
+  runner = running;
+
+  // Params land before the first frame, a paused start draws it right away
+  applyParams(sketch, params);
+  running.start(resume);
+
+  const loop = (now: number) => {
+    running.tick(now);
+    animationFrameId = nextFrame(loop);
+  };
+
+  loop(performance.now());
+}
+
+// Only the size differs: resize the running sketch instead of restarting it
+const sameRun = (a: SketchWorkerConfig, b: SketchWorkerConfig) =>
+  a.duration === b.duration && a.seed === b.seed &&
+  a.theme.foreground === b.theme.foreground && a.theme.background === b.theme.background;
+
+function dispatchInput(input: SketchWorkerInput) {
+  if (!sketch) return;
+  switch (input.type) {
+    case 'pointerdown': sketch.onPointerDown?.(input.event); break;
+    case 'pointermove': sketch.onPointerMove?.(input.event); break;
+    case 'pointerup': sketch.onPointerUp?.(input.event); break;
+    case 'wheel': sketch.onWheel?.(input.event); break;
+    case 'keydown': sketch.onKeyDown?.(input.event); break;
+    case 'keyup': sketch.onKeyUp?.(input.event); break;
+  }
+}
+
+self.onmessage = async ({ data }: MessageEvent<SketchWorkerRequest>) => {
+  try {
+    switch (data.type) {
+      case 'init':
+        if (!isSketchKey(data.sketch)) throw new Error(`Unknown sketch "${data.sketch}"`);
+        canvas = data.canvas;
+        sketch = new SKETCHES[data.sketch]();
+        sketch.emitParam = (key, value) => post({ type: 'param', key, value });
+        // Starts once the host sends its config
+        break;
+      case 'config': {
+        const previous = config;
+        config = data.config;
+        if (runner && canvas && previous && sameRun(previous, config)) {
+          canvas.width = config.width;
+          canvas.height = config.height;
+          runner.resize(config.width, config.height);
+        } else {
+          start();
+        }
+        break;
+      }
+      case 'params':
+        params = data.params;
+        if (sketch) applyParams(sketch, params);
+        runner?.invalidate();
+        break;
+      case 'transport':
+        transport = data.transport;
+        runner?.setTransport(transport);
+        break;
+      case 'seek':
+        await runner?.seek(data.target);
+        post({ type: 'seek', id: data.id });
+        break;
+      case 'input':
+        dispatchInput(data.input);
+        break;
+      case 'capture':
+        if (!canvas) throw new Error('Canvas not initialized');
+        try {
+          post({ type: 'capture', id: data.id, blob: await canvas.convertToBlob({ type: data.mimeType }) });
+        } catch (e) {
+          post({ type: 'capture', id: data.id, error: e instanceof Error ? e.message : String(e) });
+        }
+        break;
+      case 'scene':
+        post({ type: 'scene', id: data.id, scene: sketch?.getScene?.() ?? null });
+        break;
+      case 'plot':
+        post({ type: 'plot', id: data.id, paths: sketch?.getPlotPaths?.(data.source) ?? [] });
+        break;
+    }
+  } catch (e) {
+    console.error("Sketch worker error:", e);
+    post({ type: 'error', id: 'id' in data ? data.id : undefined, message: e instanceof Error ? e.message : String(e) });
+  }
+};
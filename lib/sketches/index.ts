@@ -0,0 +1,19 @@
+import { LISSAJOUS_PARAMS, LissajousSketch } from './lissajous';
+import { PIXELATOR_PARAMS, PixelatorSketch } from './pixelator';
+import { ParamSchema } from './types';
+
+// Sketch Registry
+export const SKETCHES = {
+  'lissajous': LissajousSketch,
+  'pixelator': PixelatorSketch,
+};
+
+export type SketchKey = keyof typeof SKETCHES;
+
+export const isSketchKey = (key: string): key is SketchKey => Object.hasOwn(SKETCHES, key);
+
+// Param schemas by key, for validating configurations without instantiating a sketch
+export const SKETCH_PARAMS: Record<SketchKey, ParamSchema> = {
+  'lissajous': LISSAJOUS_PARAMS,
+  'pixelator': PIXELATOR_PARAMS,
+};
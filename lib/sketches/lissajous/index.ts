@@ -1,167 +1,1189 @@
 
-import { Sketch, SketchContext } from '../types';
-
-// We reuse the logic from LissajousCore but adapted to the Sketch interface
-interface Phase {
+import { KeyframeField, ParamSchema, ParamValue, Sketch, SketchContext, SketchKeyEvent, SketchPointerEvent, SketchPreset, SketchWheelEvent } from '../types';
+import { VectorScene, VectorShape, drawScene } from '@/lib/vector';
+import type { PlotPath } from '@/lib/plotter';
+import type { Random } from '@/lib/random';
+import { Easing, SpringOptions, classicProfile, cubicBezier, fromFrameUnits, harmonicProfile, springEasing, stepSpring } from '@/lib/spring';
+
+// Phase sequence: the a:b:delta targets the curve springs between. Hold and
+// move are relative: one pass of the traversal is scaled to fill the loop.
+// A type (not an interface) so it fits the generic ParamKeyframe shape
+type Keyframe = {
   a: number;
   b: number;
+  c: number; // z frequency, only shows in the 3D knot mode
   delta: number;
+  hold: number; // Time spent on this keyframe
+  move: number; // Time spent moving into it
+};
+
+type Traversal = 'pingpong' | 'loop' | 'random' | 'shuffle';
+
+type Mode = 'classic' | 'harmonic' | 'table' | 'harmonograph' | 'knot';
+
+// Classic mode: the whole curve, a pen tracing it with a fading trail, a
+// write-on at every hold (erased again by the move out), or an
+// oscilloscope-like beam over the phosphor glow of the recent curves
+type Drawing = 'full' | 'pen' | 'write' | 'phosphor';
+
+type RotationAxis = 'x' | 'y' | 'z' | 'xy' | 'xyz';
+type Projection = 'orthographic' | 'perspective';
+
+// 3D knot: x and y as in the 2D curve, z = sin(c·t + KNOT_Z_PHASE), rotated
+// about an axis and projected
+const KNOT_Z_PHASE = Math.PI / 4;
+const KNOT_AXES: Record<RotationAxis, [number, number, number]> = {
+  x: [1, 0, 0],
+  y: [0, 1, 0],
+  z: [0, 0, 1],
+  xy: [Math.SQRT1_2, Math.SQRT1_2, 0],
+  xyz: [1 / Math.sqrt(3), 1 / Math.sqrt(3), 1 / Math.sqrt(3)],
+};
+const KNOT_CAMERA_DISTANCE = 3; // In knot radii, for the perspective projection
+const KNOT_SEGMENTS = 200; // Depth-sorted pieces, each with its own width / alpha
+
+// How the curve moves into the next keyframe: physically (springs, settles
+// on its own) or along an easing curve that takes exactly the move time
+type Transition = 'spring' | 'curve';
+
+// Harmonograph: damped pendulums swing the pen on each axis. Frequencies are
+// multiples of the sequenced a (x) / b (y) and x phases get delta, so the
+// harmonograph springs between keyframes just like the plain curve.
+type Pendulum = {
+  freq: number;
+  phase: number;
+  amp: number;
+  decay: number; // Per radian of swing
+};
+
+const DEFAULT_PENDULUMS_X: Pendulum[] = [
+  { freq: 1, phase: 0, amp: 1, decay: 0.004 },
+  { freq: 2.01, phase: Math.PI / 2, amp: 0.5, decay: 0.006 },
+];
+
+const DEFAULT_PENDULUMS_Y: Pendulum[] = [
+  { freq: 1, phase: 0, amp: 1, decay: 0.005 },
+  { freq: 3.005, phase: 0, amp: 0.4, decay: 0.007 },
+];
+
+const PENDULUM_FIELDS: KeyframeField[] = [
+  { key: 'freq', label: 'freq', min: 0.25, max: 12, step: 0.001 },
+  { key: 'phase', label: 'phase', min: 0, max: Math.PI * 2, step: Math.PI / 16, unit: { scale: Math.PI, label: 'π' } },
+  { key: 'amp', label: 'amp', min: 0, max: 1, step: 0.05 },
+  { key: 'decay', label: 'decay', min: 0, max: 0.05, step: 0.0005 },
+];
+
+const CURVE_SAMPLES = 4000; // Per period of the curve
+const TRAIL_SEGMENTS = 32; // Opacity steps along a trail
+const PHOSPHOR_LAYERS = 6; // Past curves drawn as afterglow
+
+const HARMONOGRAPH_SAMPLES_PER_TURN = 160;
+const HARMONOGRAPH_SEGMENTS = 24; // Opacity steps along the fading trace
+
+const EASINGS: Record<string, Easing> = {
+  'ease': cubicBezier(0.25, 0.1, 0.25, 1),
+  'ease-in-out': cubicBezier(0.42, 0, 0.58, 1),
+  'ease-out': cubicBezier(0, 0, 0.58, 1),
+  'expo-out': cubicBezier(0.16, 1, 0.3, 1),
+  'back': cubicBezier(0.34, 1.56, 0.64, 1),
+  'spring': springEasing(0),
+  'spring-bouncy': springEasing(0.4),
+};
+
+const DEFAULT_PHASES = [
+  { a: 1, b: 1, c: 2, delta: Math.PI / 2 },
+  { a: 1, b: 2, c: 3, delta: Math.PI / 2 },
+  { a: 1, b: 3, c: 2, delta: Math.PI / 2 },
+  { a: 3, b: 4, c: 5, delta: Math.PI / 2 },
+  { a: 3, b: 5, c: 7, delta: Math.PI / 2 },
+];
+
+// Same move / hold split on every keyframe
+const evenSequence = (move: number): Keyframe[] =>
+  DEFAULT_PHASES.map(phase => ({ ...phase, hold: 1 - move, move }));
+
+const DEFAULT_SEQUENCE = evenSequence(0.45);
+
+// Keyframe indices visited in one pass, starting on the first keyframe and
+// moving back into it when the loop wraps. Random orders are drawn from the
+// seed so realtime and exports agree; without one they can't be known yet.
+function getVisits(count: number, traversal: Traversal, random: Random | null): number[] | null {
+  const indices = Array.from({ length: count }, (_, i) => i);
+  if (count < 2) return [0];
+
+  switch (traversal) {
+    case 'loop':
+      return indices;
+    case 'pingpong':
+      return [...indices, ...indices.slice(1, -1).reverse()];
+    case 'shuffle': {
+      // Every other keyframe once, in seeded order
+      if (!random) return null;
+      const rest = indices.slice(1);
+      for (let i = rest.length - 1; i > 0; i--) {
+        const j = Math.floor(random.hash(1, i) * (i + 1));
+        [rest[i], rest[j]] = [rest[j], rest[i]];
+      }
+      return [0, ...rest];
+    }
+    case 'random': {
+      // As many steps as keyframes, never the same one twice in a row
+      // (including across the wrap back to the first)
+      if (!random) return null;
+      const visits = [0];
+      for (let i = 1; i < count; i++) {
+        const prev = visits[i - 1];
+        const options = indices.filter(k => k !== prev && (i < count - 1 || k !== 0));
+        visits.push(options[Math.floor(random.hash(2, i) * options.length)]);
+      }
+      return visits;
+    }
+  }
+}
+
+// Unscaled length of one pass: every hold plus the move into the next visit
+function getPassLength(sequence: Keyframe[], visits: number[]) {
+  if (visits.length < 2) return sequence[visits[0]].hold;
+  return visits.reduce((sum, k, i) => sum + sequence[k].hold + sequence[visits[(i + 1) % visits.length]].move, 0);
 }
 
+export const LISSAJOUS_PARAMS: ParamSchema = [
+  {
+    key: 'mode',
+    label: 'mode',
+    type: 'enum',
+    default: 'classic',
+    options: [
+      { value: 'classic', label: 'Classic' },
+      { value: 'harmonic', label: 'Harmonic' },
+      { value: 'table', label: 'Table' },
+      { value: 'harmonograph', label: 'Harmonograph' },
+      { value: 'knot', label: '3D knot' },
+    ],
+  },
+  {
+    key: 'deltaShift',
+    label: 'delta shift',
+    type: 'number',
+    default: 0,
+    min: -Math.PI,
+    max: Math.PI,
+    step: 0.01,
+    format: (v) => `${(v / Math.PI).toFixed(2)}π`,
+  },
+  {
+    key: 'deltaOffset',
+    label: 'delta offset',
+    type: 'number',
+    default: 0,
+    min: -Math.PI,
+    max: Math.PI,
+    step: 0.01,
+    format: (v) => `${(v / Math.PI).toFixed(2)}π`,
+    hint: () => 'drag, scroll or ← → on the canvas, r resets',
+  },
+  {
+    key: 'transition',
+    label: 'transition',
+    group: 'transition',
+    type: 'enum',
+    display: 'buttons',
+    default: 'spring',
+    options: [
+      { value: 'spring', label: 'Spring' },
+      { value: 'curve', label: 'Curve' },
+    ],
+  },
+  {
+    key: 'easing',
+    label: 'curve',
+    group: 'transition',
+    type: 'enum',
+    default: 'ease-in-out',
+    options: [
+      { value: 'ease', label: 'Ease' },
+      { value: 'ease-in-out', label: 'Ease in-out' },
+      { value: 'ease-out', label: 'Ease out' },
+      { value: 'expo-out', label: 'Expo out' },
+      { value: 'back', label: 'Back (overshoot)' },
+      { value: 'spring', label: 'Spring (by duration)' },
+      { value: 'spring-bouncy', label: 'Bouncy spring (by duration)' },
+    ],
+    disabled: (values) => values.transition !== 'curve',
+  },
+  {
+    key: 'stiffness',
+    label: 'stiffness',
+    group: 'physics / elastic',
+    type: 'number',
+    default: 0.025,
+    min: 0.001,
+    max: 0.2,
+    step: 0.001,
+    format: (v) => v.toFixed(3),
+    disabled: (values) => values.transition === 'curve',
+  },
+  {
+    key: 'damping',
+    label: 'damping',
+    group: 'physics / elastic',
+    type: 'number',
+    default: 0.283,
+    min: 0.001,
+    max: 2.0,
+    step: 0.001,
+    format: (v) => v.toFixed(3),
+    disabled: (values) => values.noBounce === true || values.transition === 'curve',
+  },
+  {
+    key: 'mass',
+    label: 'mass',
+    group: 'physics / elastic',
+    type: 'number',
+    default: 1,
+    min: 0.1,
+    max: 5,
+    step: 0.1,
+    format: (v) => v.toFixed(1),
+    disabled: (values) => values.transition === 'curve',
+  },
+  {
+    key: 'noBounce',
+    label: 'no bounce',
+    group: 'physics / elastic',
+    type: 'boolean',
+    default: false,
+    disabled: (values) => values.transition === 'curve',
+  },
+  {
+    key: 'traversal',
+    label: 'traversal',
+    group: 'sequence',
+    type: 'enum',
+    display: 'buttons',
+    default: 'pingpong',
+    options: [
+      { value: 'pingpong', label: 'Ping-pong' },
+      { value: 'loop', label: 'Loop' },
+      { value: 'random', label: 'Random' },
+      { value: 'shuffle', label: 'Shuffle' },
+    ],
+  },
+  {
+    key: 'sequence',
+    label: 'keyframes',
+    group: 'sequence',
+    type: 'keyframes',
+    default: DEFAULT_SEQUENCE,
+    minLength: 1,
+    maxLength: 12,
+    fields: [
+      { key: 'a', label: 'a', min: 1, max: 12, step: 1 },
+      { key: 'b', label: 'b', min: 1, max: 12, step: 1 },
+      { key: 'c', label: 'c', min: 1, max: 12, step: 1, default: 2 },
+      { key: 'delta', label: 'δ', min: 0, max: Math.PI * 2, step: Math.PI / 8, unit: { scale: Math.PI, label: 'π' } },
+      { key: 'hold', label: 'hold', min: 0, max: 10, step: 0.05 },
+      { key: 'move', label: 'move', min: 0, max: 10, step: 0.05 },
+    ],
+    hint: (values, host) => {
+      const sequence = values.sequence as Keyframe[];
+      const visits = getVisits(sequence.length, values.traversal as Traversal, null);
+      if (!visits) return [`${sequence.length} steps`, 'order drawn from the seed'];
+      const length = getPassLength(sequence, visits);
+      return [`${visits.length} steps`, length > 0 ? `×${(host.duration / length).toFixed(2)} → ${host.duration}s` : 'no time to fill'];
+    },
+  },
+  {
+    key: 'drawing',
+    label: 'drawing',
+    group: 'drawing',
+    type: 'enum',
+    display: 'buttons',
+    default: 'full',
+    options: [
+      { value: 'full', label: 'Full' },
+      { value: 'pen', label: 'Pen' },
+      { value: 'write', label: 'Write-on' },
+      { value: 'phosphor', label: 'Phosphor' },
+    ],
+    disabled: (values) => values.mode !== 'classic',
+  },
+  {
+    key: 'penLaps',
+    label: 'pen laps / loop',
+    group: 'drawing',
+    type: 'number',
+    default: 2,
+    min: 1,
+    max: 24,
+    step: 1,
+    // Whole laps so the pen is back at its start when the loop wraps
+    hint: (values, host) => `${(host.duration / (values.penLaps as number)).toFixed(2)}s per lap`,
+    disabled: (values) => values.mode !== 'classic' || (values.drawing !== 'pen' && values.drawing !== 'phosphor'),
+  },
+  {
+    key: 'trail',
+    label: 'trail length',
+    group: 'drawing',
+    type: 'number',
+    default: 0.35,
+    min: 0.02,
+    max: 1,
+    step: 0.01,
+    format: (v) => `${Math.round(v * 100)}% lap`,
+    disabled: (values) => values.mode !== 'classic' || (values.drawing !== 'pen' && values.drawing !== 'phosphor'),
+  },
+  {
+    key: 'fade',
+    label: 'trail fade',
+    group: 'drawing',
+    type: 'number',
+    default: 3,
+    min: 0,
+    max: 8,
+    step: 0.1,
+    format: (v) => v.toFixed(1),
+    hint: (values) => `tail at ${Math.round(Math.exp(-(values.fade as number)) * 100)}%`,
+    disabled: (values) => values.mode !== 'classic' || (values.drawing !== 'pen' && values.drawing !== 'phosphor'),
+  },
+  {
+    key: 'writeShare',
+    label: 'write-on',
+    group: 'drawing',
+    type: 'number',
+    default: 0.5,
+    min: 0.05,
+    max: 1,
+    step: 0.05,
+    format: (v) => `${Math.round(v * 100)}% of hold`,
+    disabled: (values) => values.mode !== 'classic' || values.drawing !== 'write',
+  },
+  {
+    key: 'persistence',
+    label: 'persistence',
+    group: 'drawing',
+    type: 'number',
+    default: 0.6,
+    min: 0.05,
+    max: 3,
+    step: 0.05,
+    format: (v) => `${v.toFixed(2)}s`,
+    disabled: (values) => values.mode !== 'classic' || values.drawing !== 'phosphor',
+  },
+  {
+    key: 'pendulumsX',
+    label: 'x pendulums (× a, + δ)',
+    group: 'harmonograph',
+    type: 'keyframes',
+    itemLabel: 'pendulum',
+    default: DEFAULT_PENDULUMS_X,
+    minLength: 2,
+    maxLength: 4,
+    fields: PENDULUM_FIELDS,
+    disabled: (values) => values.mode !== 'harmonograph',
+  },
+  {
+    key: 'pendulumsY',
+    label: 'y pendulums (× b)',
+    group: 'harmonograph',
+    type: 'keyframes',
+    itemLabel: 'pendulum',
+    default: DEFAULT_PENDULUMS_Y,
+    minLength: 2,
+    maxLength: 4,
+    fields: PENDULUM_FIELDS,
+    disabled: (values) => values.mode !== 'harmonograph',
+  },
+  {
+    key: 'turns',
+    label: 'turns',
+    group: 'harmonograph',
+    type: 'number',
+    default: 40,
+    min: 4,
+    max: 160,
+    step: 1,
+    disabled: (values) => values.mode !== 'harmonograph',
+  },
+  {
+    key: 'rotation',
+    label: 'rotation / loop',
+    group: '3d knot',
+    type: 'number',
+    default: 1,
+    min: -4,
+    max: 4,
+    step: 1,
+    // Whole turns per loop, so the end of the loop meets its start
+    format: (v) => `${v} turn${Math.abs(v) === 1 ? '' : 's'}`,
+    hint: (values, host) => values.rotation === 0 ? 'still' : `${(host.duration / Math.abs(values.rotation as number)).toFixed(2)}s per turn`,
+    disabled: (values) => values.mode !== 'knot',
+  },
+  {
+    key: 'axis',
+    label: 'rotation axis',
+    group: '3d knot',
+    type: 'enum',
+    display: 'buttons',
+    default: 'y',
+    options: [
+      { value: 'x', label: 'X' },
+      { value: 'y', label: 'Y' },
+      { value: 'z', label: 'Z' },
+      { value: 'xy', label: 'XY' },
+      { value: 'xyz', label: 'XYZ' },
+    ],
+    disabled: (values) => values.mode !== 'knot',
+  },
+  {
+    key: 'projection',
+    label: 'projection',
+    group: '3d knot',
+    type: 'enum',
+    display: 'buttons',
+    default: 'perspective',
+    options: [
+      { value: 'orthographic', label: 'Ortho' },
+      { value: 'perspective', label: 'Perspective' },
+    ],
+    disabled: (values) => values.mode !== 'knot',
+  },
+];
+
+export const LISSAJOUS_PRESETS: SketchPreset[] = [
+  { name: 'default', params: {} },
+  { name: 'soft landing', params: { noBounce: true, stiffness: 0.015, sequence: evenSequence(0.6) } },
+  { name: 'wobbly', params: { stiffness: 0.06, damping: 0.08, mass: 1.5 } },
+  { name: 'harmonic', params: { mode: 'harmonic' } },
+  { name: 'eased', params: { transition: 'curve', easing: 'expo-out' } },
+  { name: 'harmonograph', params: { mode: 'harmonograph' } },
+  { name: '3d knot', params: { mode: 'knot', axis: 'xy' } },
+  { name: 'pen', params: { drawing: 'pen', penLaps: 3, trail: 0.5 } },
+  { name: 'write-on', params: { drawing: 'write', transition: 'curve', easing: 'ease-in-out' } },
+  {
+    name: 'oscilloscope',
+    params: { drawing: 'phosphor', penLaps: 16, trail: 0.8, fade: 2 },
+    theme: { foreground: '#7CFF9B', background: '#041008' },
+  },
+  {
+    name: 'table / ink',
+    params: { mode: 'table', sequence: evenSequence(0.3) },
+    theme: { foreground: '#000000', background: '#FFFFFF' },
+  },
+];
+
+// Table mode grid: one row per ratio, one column per phase offset
+const TABLE_RATIOS = [
+  { a: 1, b: 1, label: '1:1' },
+  { a: 1, b: 2, label: '1:2' },
+  { a: 1, b: 3, label: '1:3' },
+  { a: 2, b: 3, label: '2:3' },
+  { a: 3, b: 4, label: '3:4' },
+  { a: 3, b: 5, label: '3:5' },
+  { a: 4, b: 5, label: '4:5' },
+  { a: 5, b: 6, label: '5:6' },
+];
+
+const TABLE_DELTAS = [
+  { val: 0, label: '0' },
+  { val: Math.PI / 4, label: 'π/4' },
+  { val: Math.PI / 2, label: 'π/2' },
+  { val: 3 * Math.PI / 4, label: '3π/4' },
+  { val: Math.PI, label: 'π' },
+];
+
+interface TableLayout {
+  width: number;
+  height: number;
+  transposed: boolean; // Ratios across the top, deltas down the side
+  rows: number;
+  cols: number;
+  fontSize: number;
+  lineWidth: number;
+  cellSize: number;
+  startX: number; // Top left of the grid, labels sit outside it
+  startY: number;
+}
+
+// Square cells as large as the canvas allows. Landscape canvases get the
+// table transposed so its long side runs along theirs.
+function getTableLayout(width: number, height: number): TableLayout {
+  const transposed = width > height;
+  const rows = transposed ? TABLE_DELTAS.length : TABLE_RATIOS.length;
+  const cols = transposed ? TABLE_RATIOS.length : TABLE_DELTAS.length;
+
+  // Sized off the short side so every format gets the same proportions
+  const unit = Math.min(width, height);
+  const fontSize = unit * 0.02;
+  const padding = unit * 0.05;
+  const labelMarginL = fontSize * 3;
+  const labelMarginT = fontSize * 2;
+
+  // Available size for the grid
+  const availW = width - padding * 2 - labelMarginL;
+  const availH = height - padding * 2 - labelMarginT;
+  const cellSize = Math.max(0, Math.min(availW / cols, availH / rows));
+
+  return {
+    width,
+    height,
+    transposed,
+    rows,
+    cols,
+    fontSize,
+    lineWidth: unit * 0.0015,
+    cellSize,
+    // Centered in the available area
+    startX: padding + labelMarginL + (availW - cellSize * cols) / 2,
+    startY: padding + labelMarginT + (availH - cellSize * rows) / 2,
+  };
+}
+
+// Things the plotter can draw: the live curve, the whole table or one cell
+const PLOT_SOURCES = [
+  { value: 'curve', label: 'current curve' },
+  { value: 'table', label: 'table' },
+  ...TABLE_RATIOS.flatMap((ratio, r) => TABLE_DELTAS.map((delta, c) => ({
+    value: `cell:${r}:${c}`,
+    label: `cell ${ratio.label} · ${delta.label}`,
+  }))),
+];
+
+// Closed a:b curve of the given radius around (cx, cy)
+function sampleCurve(a: number, b: number, delta: number, cx: number, cy: number, radius: number, samples: number) {
+  const points: number[] = [];
+  for (let i = 0; i <= samples; i++) {
+    const t = (i / samples) * Math.PI * 2;
+    points.push(cx + radius * Math.sin(a * t + delta), cy + radius * Math.sin(b * t));
+  }
+  return points;
+}
+
+// We reuse the logic from LissajousCore but adapted to the Sketch interface
 interface Params {
   a: number;
   b: number;
+  c: number;
   delta: number;
 }
 
+const PARAM_KEYS = ['a', 'b', 'c', 'delta'] as const;
+
+// Everything updateLogic evolves, captured for transport seeks
+interface LissajousState {
+  t: number;
+  visit: number;
+  keyframe: number;
+  state: 'HOLD' | 'TRANSITION';
+  timer: number;
+  frame: number;
+  current: Params; // Only read mid-transition, holds sit on the keyframe
+  velocity: Params;
+  from: Params;
+  clock: number;
+  history: { time: number; params: Params }[];
+}
+
 export class LissajousSketch implements Sketch {
+  readonly params = LISSAJOUS_PARAMS;
+  readonly presets = LISSAJOUS_PRESETS;
+  readonly usesTheme = true;
+  readonly plotSources = PLOT_SOURCES;
+
   private t: number = 0;
-  private timeStep: number = 0.01; // Mechanism speed (Faster)
+  private mechanismSpeed: number = 0.6; // Radians per second
 
-  private phases: Phase[] = [
-    { a: 1, b: 1, delta: Math.PI / 2 },
-    { a: 1, b: 2, delta: Math.PI / 2 },
-    { a: 1, b: 3, delta: Math.PI / 2 },
-    { a: 3, b: 4, delta: Math.PI / 2 }, // Skipped 2:3 as requested
-    { a: 3, b: 5, delta: Math.PI / 2 },
-  ];
+  // Phase sequence (Public for UI/Editor)
+  public sequence: Keyframe[] = DEFAULT_SEQUENCE;
+  public traversal: Traversal = 'pingpong';
+  // Visit order and time scale for the current sequence, loop and seed
+  private plan: { visits: number[]; scale: number; duration: number } | null = null;
+  private visit: number = 0; // Position in plan.visits
+  private keyframe: number = 0; // Sequence index being held / moved into
 
-  private currentPhaseIndex: number = 0;
-  private direction: number = 1;
+  public transition: Transition = 'spring';
+  public easing: string = 'ease-in-out'; // Key of EASINGS, for curve transitions
 
-  // Physics params (Public for UI/Editor)
+  // Physics params (Public for UI/Editor), per-frame units at 60fps (see
+  // fromFrameUnits) so presets and links made before keep their feel
   public stiffness: number = 0.02;
   public damping: number = 0.2;
   public mass: number = 1;
+  // Derive damping from stiffness/mass (critical damping) instead
+  public noBounce: boolean = false;
 
   // Mode Handling
-  private _mode: 'classic' | 'harmonic' | 'table' = 'classic';
+  private _mode: Mode = 'classic';
 
   public get mode() { return this._mode; }
-  public set mode(v: 'classic' | 'harmonic' | 'table') {
+  public set mode(v: Mode) {
     if (this._mode !== v) {
       this._mode = v;
       // Reset physics when switching modes to prevent "carrying over" momentum
-      this.currentVelocity = { a: 0, b: 0, delta: 0 };
+      this.currentVelocity = { a: 0, b: 0, c: 0, delta: 0 };
       // Optional: Snap to target to be clean?
       // this.currentParams = { ...this.targetParams };
     }
   }
 
-  // Timing params (Public for UI/Editor)
-  public holdDuration: number = 2 * 60; // frames
-  public transitionDuration: number = 2 * 60; // frames
+  // Harmonograph pendulums (Public for UI/Editor)
+  public pendulumsX: Pendulum[] = DEFAULT_PENDULUMS_X;
+  public pendulumsY: Pendulum[] = DEFAULT_PENDULUMS_Y;
+  public turns: number = 40;
+
+  // Classic drawing (Public for UI/Editor)
+  public drawing: Drawing = 'full';
+  public penLaps: number = 2; // Whole laps per loop
+  public trail: number = 0.35; // Share of a lap
+  public fade: number = 3; // Exponential fade rate along the trail
+  public writeShare: number = 0.5; // Share of each hold spent writing on
+  public persistence: number = 0.6; // Seconds the phosphor glows
+  private penHead: number = 0; // Curve parameter the pen is at
+  // Elapsed run time and the curves drawn over the last `persistence` seconds
+  private clock: number = 0;
+  private history: { time: number; params: Params }[] = [];
+
+  // 3D knot view (Public for UI/Editor)
+  public rotation: number = 1; // Whole turns per loop
+  public axis: RotationAxis = 'y';
+  public projection: Projection = 'perspective';
+  private knotAngle: number = 0;
+
+  // Phase shift on top of the sequenced delta: deltaShift is the param
+  // (mappable to audio), deltaOffset the manual one (drag / wheel / arrows).
+  // Input changes deltaOffset through the host (emitParam), like a UI edit.
+  public deltaShift: number = 0;
+  public deltaOffset: number = 0;
+  emitParam?: (key: string, value: ParamValue) => void;
+  private dragStartX: number | null = null;
+  private dragStartOffset: number = 0;
+  private width: number = 1;
 
   private state: 'HOLD' | 'TRANSITION' = 'HOLD';
   private timer: number = 0;
   private frame: number = 0;
 
   private currentParams: Params;
-  private currentVelocity: Params;
+  private currentVelocity: Params; // Per second
   private targetParams: Params;
+  private fromParams: Params; // Where the current curve transition started
+
+  private scene: VectorScene | null = null;
+  private layout: TableLayout | null = null;
 
   constructor() {
-    this.currentParams = { ...this.phases[0] };
-    this.currentVelocity = { a: 0, b: 0, delta: 0 };
-    this.targetParams = { ...this.phases[0] };
+    this.currentParams = this.getKeyframeParams(0);
+    this.currentVelocity = { a: 0, b: 0, c: 0, delta: 0 };
+    this.targetParams = this.getKeyframeParams(0);
+    this.fromParams = this.getKeyframeParams(0);
+  }
+
+  setup({ width, height }: SketchContext) {
+    // Every run starts from the first keyframe, whatever an earlier run (or
+    // realtime ticks before an export) left behind, so runs are frame-identical
+    this.t = 0;
+    this.visit = 0;
+    this.keyframe = 0;
+    this.state = 'HOLD';
+    this.timer = 0;
+    this.frame = 0;
+    this.currentParams = this.getKeyframeParams(0);
+    this.currentVelocity = { a: 0, b: 0, c: 0, delta: 0 };
+    this.targetParams = this.getKeyframeParams(0);
+    this.fromParams = this.getKeyframeParams(0);
+    // Random orders depend on the seed, which may have changed
+    this.plan = null;
+    this.clock = 0;
+    this.history = [];
+    this.resize(width, height);
+  }
+
+  resize(width: number, height: number) {
+    this.width = width;
+    this.layout = getTableLayout(width, height);
+  }
+
+  setParam(key: string, value: ParamValue) {
+    switch (key) {
+      case 'mode':
+        this.mode = value as Mode;
+        break;
+      case 'transition':
+        this.transition = value as Transition;
+        break;
+      case 'easing':
+        this.easing = value as string;
+        break;
+      case 'stiffness':
+        this.stiffness = value as number;
+        break;
+      case 'damping':
+        this.damping = value as number;
+        break;
+      case 'mass':
+        this.mass = value as number;
+        break;
+      case 'noBounce':
+        this.noBounce = value as boolean;
+        break;
+      case 'traversal':
+        this.traversal = value as Traversal;
+        this.plan = null;
+        break;
+      case 'sequence':
+        this.sequence = value as Keyframe[];
+        this.plan = null;
+        this.keyframe = Math.min(this.keyframe, this.sequence.length - 1);
+        // Edits show up right away: holds jump to the edited keyframe, moves
+        // re-aim at it
+        this.targetParams = this.getKeyframeParams(this.keyframe);
+        if (this.state === 'HOLD') {
+          this.currentParams = { ...this.targetParams };
+          this.currentVelocity = { a: 0, b: 0, c: 0, delta: 0 };
+        }
+        break;
+      case 'deltaShift':
+        this.deltaShift = value as number;
+        break;
+      case 'deltaOffset':
+        this.deltaOffset = value as number;
+        break;
+      case 'pendulumsX':
+        this.pendulumsX = value as Pendulum[];
+        break;
+      case 'pendulumsY':
+        this.pendulumsY = value as Pendulum[];
+        break;
+      case 'turns':
+        this.turns = value as number;
+        break;
+      case 'drawing':
+        this.drawing = value as Drawing;
+        break;
+      case 'penLaps':
+        this.penLaps = value as number;
+        break;
+      case 'trail':
+        this.trail = value as number;
+        break;
+      case 'fade':
+        this.fade = value as number;
+        break;
+      case 'writeShare':
+        this.writeShare = value as number;
+        break;
+      case 'persistence':
+        this.persistence = value as number;
+        break;
+      case 'rotation':
+        this.rotation = value as number;
+        break;
+      case 'axis':
+        this.axis = value as RotationAxis;
+        break;
+      case 'projection':
+        this.projection = value as Projection;
+        break;
+    }
   }
 
-  setup(ctx: SketchContext) {
-    // Init logic if needed
+  // Dragging across the full canvas width sweeps delta by one full turn
+  onPointerDown({ x }: SketchPointerEvent) {
+    this.dragStartX = x;
+    this.dragStartOffset = this.deltaOffset;
   }
 
-  draw({ ctx, width, height, theme }: SketchContext) {
+  onPointerMove({ x, buttons }: SketchPointerEvent) {
+    if (this.dragStartX === null || !buttons) return;
+    this.setDeltaOffset(this.dragStartOffset + ((x - this.dragStartX) / this.width) * Math.PI * 2);
+  }
+
+  onPointerUp() {
+    this.dragStartX = null;
+  }
+
+  onWheel({ deltaY }: SketchWheelEvent) {
+    this.setDeltaOffset(this.deltaOffset + deltaY * 0.002);
+    return true;
+  }
+
+  onKeyDown({ key, shiftKey }: SketchKeyEvent) {
+    const step = shiftKey ? Math.PI / 4 : Math.PI / 16;
+    switch (key) {
+      case 'ArrowLeft':
+        this.setDeltaOffset(this.deltaOffset - step);
+        return true;
+      case 'ArrowRight':
+        this.setDeltaOffset(this.deltaOffset + step);
+        return true;
+      case 'r':
+        this.setDeltaOffset(0);
+        return true;
+    }
+    return false;
+  }
+
+  // Applied right away, and reported to the host so the param (and with it
+  // exports, links and presets) follows. Wrapped into the param's ±π range.
+  private setDeltaOffset(value: number) {
+    const turn = Math.PI * 2;
+    this.deltaOffset = ((((value + Math.PI) % turn) + turn) % turn) - Math.PI;
+    this.emitParam?.('deltaOffset', this.deltaOffset);
+  }
+
+  draw({ ctx, width, height, theme, time, deltaTime, duration, random }: SketchContext) {
     try {
       this.frame++;
+      this.width = width;
       // 1. Update Logic
-      this.updateLogic();
-
-      // 2. Clear
-      ctx.fillStyle = theme.background;
-      ctx.fillRect(0, 0, width, height);
-
-      if (this.mode === 'harmonic') {
-        this.drawHarmonic(ctx, width, height, theme);
-      } else if (this.mode === 'table') {
-        this.drawTable(ctx, width, height, theme);
-      } else {
-        this.drawClassic(ctx, width, height, theme);
+      if (!this.plan || this.plan.duration !== duration) {
+        const visits = getVisits(this.sequence.length, this.traversal, random) ?? [0];
+        const length = getPassLength(this.sequence, visits);
+        this.plan = { visits, scale: length > 0 ? duration / length : 0, duration };
+        this.visit %= visits.length;
       }
+      this.updateLogic(deltaTime, this.plan);
+      // Whole turns / laps per loop, derived from time so seeks and wraps line up
+      this.knotAngle = duration > 0 ? (time / duration) * this.rotation * Math.PI * 2 : 0;
+      this.penHead = duration > 0 ? (time / duration) * this.penLaps * Math.PI * 2 : 0;
+      this.recordHistory(deltaTime);
+
+      // 2. Build the frame as vector shapes, then rasterize it
+      const shapes =
+        this.mode === 'harmonic' ? this.drawHarmonic(width, height, theme)
+          : this.mode === 'table' ? this.drawTable(width, height, theme)
+            : this.mode === 'harmonograph' ? this.drawHarmonograph(width, height, theme)
+              : this.mode === 'knot' ? this.drawKnot(width, height, theme)
+                : this.drawClassic(width, height, theme);
+      this.scene = { width, height, background: theme.background, shapes };
+      drawScene(ctx, this.scene);
     } catch (e) {
       console.error("Lissajous Draw Error:", e);
     }
   }
 
+  snapshot(): LissajousState {
+    return {
+      t: this.t,
+      visit: this.visit,
+      keyframe: this.keyframe,
+      state: this.state,
+      timer: this.timer,
+      frame: this.frame,
+      current: { ...this.currentParams },
+      velocity: { ...this.currentVelocity },
+      from: { ...this.fromParams },
+      clock: this.clock,
+      history: this.history.map(entry => ({ time: entry.time, params: { ...entry.params } })),
+    };
+  }
+
+  restore(snapshot: unknown) {
+    const s = snapshot as LissajousState;
+    this.t = s.t;
+    this.visit = s.visit;
+    this.state = s.state;
+    this.timer = s.timer;
+    this.frame = s.frame;
+    // Targets come from the live sequence, it may have been edited since
+    this.keyframe = Math.min(s.keyframe, this.sequence.length - 1);
+    this.targetParams = this.getKeyframeParams(this.keyframe);
+    this.currentParams = s.state === 'HOLD' ? { ...this.targetParams } : { ...s.current };
+    this.currentVelocity = { ...s.velocity };
+    this.fromParams = { ...s.from };
+    this.clock = s.clock;
+    this.history = s.history.map(entry => ({ time: entry.time, params: { ...entry.params } }));
+  }
+
+  // Last drawn frame, exported as SVG / PDF by the host
+  getScene() {
+    return this.scene;
+  }
+
+  // Plotter paths in unit space, the host fits them to the paper
+  getPlotPaths(source: string): PlotPath[] {
+    if (source === 'curve' && this.mode === 'harmonograph') {
+      const points: number[] = [];
+      const samples = this.turns * HARMONOGRAPH_SAMPLES_PER_TURN;
+      for (let i = 0; i <= samples; i++) {
+        const p = this.getHarmonographPointAt((i / samples) * this.turns * Math.PI * 2);
+        points.push(p.x, p.y);
+      }
+      return [{ layer: 'curve', points }];
+    }
+
+    if (source === 'curve' && this.mode === 'knot') {
+      const projected = this.projectKnot(4000);
+      const points = [...projected, projected[0]].flatMap(p => [p.x, p.y]);
+      return [{ layer: 'curve', points }];
+    }
+
+    if (source === 'curve') {
+      const points: number[] = [];
+      const samples = 4000;
+      for (let i = 0; i <= samples; i++) {
+        const p = this.getPointAt((i / samples) * Math.PI * 2);
+        points.push(p.x, p.y);
+      }
+      return [{ layer: 'curve', points }];
+    }
+
+    // Cells are 1 unit apart with the same 80% fill as on screen
+    const cell = (r: number, c: number): PlotPath => ({
+      layer: TABLE_RATIOS[r].label,
+      points: sampleCurve(TABLE_RATIOS[r].a, TABLE_RATIOS[r].b, TABLE_DELTAS[c].val, c, r, 0.4, 400),
+    });
+
+    if (source === 'table') {
+      return TABLE_RATIOS.flatMap((_, r) => TABLE_DELTAS.map((_, c) => cell(r, c)));
+    }
+
+    const match = /^cell:(\d+):(\d+)$/.exec(source);
+    if (match) {
+      const [r, c] = [Number(match[1]), Number(match[2])];
+      if (r < TABLE_RATIOS.length && c < TABLE_DELTAS.length) return [cell(r, c)];
+    }
+    return [];
+  }
+
   // Original drawing logic
-  private drawClassic(ctx: CanvasRenderingContext2D, width: number, height: number, theme: { foreground: string, background: string }) {
+  private drawClassic(width: number, height: number, theme: { foreground: string, background: string }): VectorShape[] {
     const centerX = width / 2;
     const centerY = height / 2;
     const scale = Math.min(width, height) * 0.35;
+    const lineWidth = Math.min(width, height) * 0.004;
+    const toScreen = (p: { x: number; y: number }) => [centerX + p.x * scale, centerY + p.y * scale];
+    const stroke = theme.foreground;
+    const full = Math.PI * 2;
+
+    switch (this.drawing) {
+      case 'pen':
+        return [
+          ...this.drawTrail(this.penHead, this.trail * full, toScreen, stroke, lineWidth),
+          this.drawPenHead(toScreen(this.getPointAt(this.penHead)), stroke, lineWidth),
+        ];
+
+      case 'write': {
+        // Written on over the start of each hold, erased from its start by
+        // the move out, so every keyframe is drawn afresh
+        const progress = this.getStateProgress();
+        if (this.state === 'TRANSITION') {
+          return [{ type: 'path', points: this.sampleArc(progress * full, full, toScreen), stroke, lineWidth }];
+        }
+        const shapes: VectorShape[] = [{ type: 'path', points: this.sampleArc(0, progress * full, toScreen), stroke, lineWidth }];
+        if (progress < 1) shapes.push(this.drawPenHead(toScreen(this.getPointAt(progress * full)), stroke, lineWidth));
+        return shapes;
+      }
+
+      case 'phosphor': {
+        // Afterglow of the curves drawn over the persistence window, oldest
+        // (dimmest) first, then the beam with a soft halo around its trail
+        const shapes: VectorShape[] = [];
+        const step = Math.max(1, Math.floor(this.history.length / PHOSPHOR_LAYERS));
+        for (let i = 0; i < this.history.length; i += step) {
+          const { time, params } = this.history[i];
+          const glow = Math.exp((-3 * (this.clock - time)) / this.persistence);
+          const points: number[] = [];
+          for (let j = 0; j <= CURVE_SAMPLES / 4; j++) {
+            points.push(...toScreen(this.getPointAt((j / (CURVE_SAMPLES / 4)) * full, params)));
+          }
+          shapes.push({ type: 'path', points, stroke, lineWidth, opacity: Number((0.25 * glow).toFixed(2)) });
+        }
+        const length = this.trail * full;
+        shapes.push(...this.drawTrail(this.penHead, length, toScreen, stroke, lineWidth * 4, 0.15));
+        shapes.push(...this.drawTrail(this.penHead, length, toScreen, stroke, lineWidth));
+        shapes.push(this.drawPenHead(toScreen(this.getPointAt(this.penHead)), stroke, lineWidth));
+        return shapes;
+      }
 
-    ctx.beginPath();
-    ctx.strokeStyle = theme.foreground;
-    ctx.lineWidth = width * 0.004;
-    ctx.lineJoin = 'round';
-    ctx.lineCap = 'round';
+      default:
+        return [{ type: 'path', points: this.sampleArc(0, full, toScreen), stroke, lineWidth }];
+    }
+  }
 
-    const samples = 4000;
-    const maxT = Math.PI * 2;
-    let firstPoint = true;
+  // The current curve from curve parameter `from` to `to`, in screen space
+  private sampleArc(from: number, to: number, toScreen: (p: { x: number; y: number }) => number[]) {
+    const samples = Math.max(1, Math.ceil((Math.abs(to - from) / (Math.PI * 2)) * CURVE_SAMPLES));
+    const points: number[] = [];
     for (let i = 0; i <= samples; i++) {
-      const t = (i / samples) * maxT;
-      const p = this.getPointAt(t);
-      const sx = centerX + p.x * scale;
-      const sy = centerY + p.y * scale;
+      points.push(...toScreen(this.getPointAt(from + ((to - from) * i) / samples)));
+    }
+    return points;
+  }
 
-      if (firstPoint) {
-        ctx.moveTo(sx, sy);
-        firstPoint = false;
-      } else {
-        ctx.lineTo(sx, sy);
+  // The stretch of curve the pen just drew, fading exponentially towards its
+  // tail (tail opacity e^-fade)
+  private drawTrail(head: number, length: number, toScreen: (p: { x: number; y: number }) => number[], stroke: string, lineWidth: number, opacity = 1): VectorShape[] {
+    const shapes: VectorShape[] = [];
+    for (let i = 0; i < TRAIL_SEGMENTS; i++) {
+      // Segments share their end points so the trail stays continuous
+      const near = head - (length * i) / TRAIL_SEGMENTS;
+      const far = head - (length * (i + 1)) / TRAIL_SEGMENTS;
+      const fade = Math.exp(-this.fade * (i + 0.5) / TRAIL_SEGMENTS);
+      shapes.push({ type: 'path', points: this.sampleArc(far, near, toScreen), stroke, lineWidth, opacity: Number((opacity * fade).toFixed(2)) });
+    }
+    // Tail first, so the brighter head end is drawn on top
+    return shapes.reverse();
+  }
+
+  // A dot: a tiny circle stroked thicker than its radius
+  private drawPenHead([x, y]: number[], stroke: string, lineWidth: number): VectorShape {
+    const radius = lineWidth;
+    const points: number[] = [];
+    for (let i = 0; i < 12; i++) {
+      const angle = (i / 12) * Math.PI * 2;
+      points.push(x + Math.cos(angle) * radius, y + Math.sin(angle) * radius);
+    }
+    return { type: 'path', points, closed: true, stroke, lineWidth: radius * 2 };
+  }
+
+  // How far the current hold's write-on (or the current move) has got, 0..1
+  private getStateProgress() {
+    if (!this.plan) return 1;
+    const keyframe = this.sequence[this.keyframe];
+    if (this.state === 'HOLD') {
+      // A single keyframe holds for the whole loop
+      const hold = this.plan.visits.length > 1 ? keyframe.hold * this.plan.scale : this.plan.duration;
+      const write = hold * this.writeShare;
+      return write > 0 ? Math.min(1, this.timer / write) : 1;
+    }
+    const move = keyframe.move * this.plan.scale;
+    return move > 0 ? Math.min(1, this.timer / move) : 1;
+  }
+
+  // Phosphor afterglow: remember the curve every frame for `persistence` seconds
+  private recordHistory(deltaTime: number) {
+    this.clock += deltaTime;
+    if (this.mode !== 'classic' || this.drawing !== 'phosphor') {
+      this.history = [];
+      return;
+    }
+    this.history.push({ time: this.clock, params: { ...this.currentParams } });
+    while (this.history.length && this.clock - this.history[0].time > this.persistence) this.history.shift();
+  }
+
+  // The whole decaying trace, fading out as the pendulums lose their swing
+  private drawHarmonograph(width: number, height: number, theme: { foreground: string, background: string }): VectorShape[] {
+    const centerX = width / 2;
+    const centerY = height / 2;
+    const scale = Math.min(width, height) * 0.35;
+    const lineWidth = Math.min(width, height) * 0.004;
+
+    const maxT = this.turns * Math.PI * 2;
+    const perSegment = Math.ceil((this.turns * HARMONOGRAPH_SAMPLES_PER_TURN) / HARMONOGRAPH_SEGMENTS);
+    const samples = perSegment * HARMONOGRAPH_SEGMENTS;
+
+    const shapes: VectorShape[] = [];
+    let points: number[] = [];
+    let opacity = 1;
+    for (let i = 0; i <= samples; i++) {
+      const p = this.getHarmonographPointAt((i / samples) * maxT);
+      points.push(centerX + p.x * scale, centerY + p.y * scale);
+      if (i % perSegment === 0) {
+        if (i > 0) shapes.push({ type: 'path', points, stroke: theme.foreground, lineWidth, opacity });
+        // Segments overlap by one point so the trace stays continuous
+        points = points.slice(-2);
+        opacity = Number((0.2 + 0.8 * p.energy).toFixed(2));
       }
     }
-    ctx.stroke();
+
+    return shapes;
+  }
+
+  // Rotated, projected knot. Split into pieces drawn back to front, thinner
+  // and fainter the further away they are.
+  private drawKnot(width: number, height: number, theme: { foreground: string, background: string }): VectorShape[] {
+    const centerX = width / 2;
+    const centerY = height / 2;
+    const scale = Math.min(width, height) * 0.45;
+    const strokeWidth = Math.min(width, height) * 0.004;
+
+    const points = this.projectKnot(4000);
+    const perSegment = points.length / KNOT_SEGMENTS;
+    const segments: { points: number[]; depth: number }[] = [];
+    for (let s = 0; s < KNOT_SEGMENTS; s++) {
+      // Segments share their end points so the curve stays continuous
+      const slice = points.slice(Math.floor(s * perSegment), Math.floor((s + 1) * perSegment) + 1);
+      if (s === KNOT_SEGMENTS - 1) slice.push(points[0]);
+      const depth = slice.reduce((sum, p) => sum + p.depth, 0) / slice.length;
+      segments.push({ points: slice.flatMap(p => [centerX + p.x * scale, centerY + p.y * scale]), depth });
+    }
+    segments.sort((a, b) => a.depth - b.depth);
+
+    return segments.map(({ points, depth }) => ({
+      type: 'path',
+      points,
+      stroke: theme.foreground,
+      lineWidth: strokeWidth * (0.5 + depth),
+      opacity: Number((0.25 + 0.75 * depth).toFixed(2)),
+    }));
+  }
+
+  // One period of the knot, rotated by the current angle and projected to
+  // unit space (inside the unit circle). Depth runs from 0 (far) to 1 (near).
+  private projectKnot(samples: number) {
+    const { a, b, c } = this.currentParams;
+    const delta = this.currentParams.delta + this.deltaShift + this.deltaOffset;
+
+    // Rodrigues: rotation by knotAngle about the unit axis k
+    const [kx, ky, kz] = KNOT_AXES[this.axis];
+    const cos = Math.cos(this.knotAngle);
+    const sin = Math.sin(this.knotAngle);
+    const rotate = (x: number, y: number, z: number) => {
+      const dot = (kx * x + ky * y + kz * z) * (1 - cos);
+      return [
+        x * cos + (ky * z - kz * y) * sin + kx * dot,
+        y * cos + (kz * x - kx * z) * sin + ky * dot,
+        z * cos + (kx * y - ky * x) * sin + kz * dot,
+      ];
+    };
+
+    // The knot fits a cube of side 2, scaled into the unit sphere
+    const radius = Math.sqrt(3);
+    const perspective = this.projection === 'perspective';
+    // Inside the unit sphere perspective enlarges by d / sqrt(d² - 1) at
+    // most (~6% at 3 radii), which the 0.45 scale leaves room for
+    const d = KNOT_CAMERA_DISTANCE;
+
+    const projected: { x: number; y: number; depth: number }[] = [];
+    for (let i = 0; i < samples; i++) {
+      const t = (i / samples) * Math.PI * 2;
+      const [x, y, z] = rotate(Math.sin(a * t + delta), Math.sin(b * t), Math.sin(c * t + KNOT_Z_PHASE));
+      const zn = z / radius; // Positive towards the viewer
+      const f = (perspective ? d / (d - zn) : 1) / radius;
+      projected.push({ x: x * f, y: y * f, depth: (zn + 1) / 2 });
+    }
+    return projected;
   }
 
-  private drawHarmonic(ctx: CanvasRenderingContext2D, width: number, height: number, theme: { foreground: string, background: string }) {
+  private drawHarmonic(width: number, height: number, theme: { foreground: string, background: string }): VectorShape[] {
     const centerX = width / 2;
     const centerY = height / 2;
 
     // Use Classic Scale (0.35)
     const scale = Math.min(width, height) * 0.35;
 
-    // Draw Curve first
-    ctx.beginPath();
-    ctx.strokeStyle = theme.foreground;
-    // Use Classic Stroke Width
-    ctx.lineWidth = width * 0.004;
-    ctx.lineCap = 'round'; // Match classic
-
     // User requested "maintain the same size and stroke width from classic"
-    // implies no ghosting opacity, so we keep alpha 1.0 or remove it.
-    ctx.globalAlpha = 1.0;
-
+    // implies no ghosting opacity, so the curve is drawn fully opaque.
     const samples = 2000;
     const maxT = Math.PI * 2;
-    let firstPoint = true;
 
     // Draw Curve - Uses fixed 1:1 parameters as requested
     const hA = 1;
     const hB = 1;
     const hDelta = Math.PI / 2;
 
+    const curve: number[] = [];
     for (let i = 0; i <= samples; i++) {
       const t = (i / samples) * maxT;
       const R = 1;
       const x = R * Math.sin(hA * t + hDelta);
       const y = R * Math.sin(hB * t);
-
-      const sx = centerX + x * scale;
-      const sy = centerY + y * scale;
-      if (firstPoint) { ctx.moveTo(sx, sy); firstPoint = false; }
-      else { ctx.lineTo(sx, sy); }
+      curve.push(centerX + x * scale, centerY + y * scale);
     }
-    ctx.stroke();
+
+    // Draw Curve first, with the Classic Stroke Width
+    const shapes: VectorShape[] = [{ type: 'path', points: curve, stroke: theme.foreground, lineWidth: Math.min(width, height) * 0.004 }];
 
     // --- Current Point P (Strictly 1:1 for Harmonic Mode) ---
     // User requested "always alpha to 1 and beta to 1" for this mode.
@@ -189,104 +1211,59 @@ export class LissajousSketch implements Sketch {
 
     // Use pure black for the mechanism as requested
     const mechanismColor = '#000000';
-    const strokeWidth = width * 0.002;
+    const strokeWidth = Math.min(width, height) * 0.002;
+    const line = (x1: number, y1: number, x2: number, y2: number): VectorShape =>
+      ({ type: 'path', points: [x1, y1, x2, y2], stroke: mechanismColor, lineWidth: strokeWidth });
 
     // 1. Draw Axis/Tracks (Top and Left Only)
-    ctx.strokeStyle = mechanismColor;
-    ctx.lineWidth = strokeWidth;
-
     // Top Track line
-    ctx.beginPath();
-    ctx.moveTo(centerX - scale, oscX_Y);
-    ctx.lineTo(centerX + scale, oscX_Y);
-    ctx.stroke();
-
+    shapes.push(line(centerX - scale, oscX_Y, centerX + scale, oscX_Y));
     // Left Track line
-    ctx.beginPath();
-    ctx.moveTo(oscY_X, centerY - scale);
-    ctx.lineTo(oscY_X, centerY + scale);
-    ctx.stroke();
+    shapes.push(line(oscY_X, centerY - scale, oscY_X, centerY + scale));
 
     // 2. Draw Springs (Top and Left Only)
     // Top Spring (Anchor Left)
     const anchorX = centerX - scale;
     const massX = centerX + px_val * scale;
-    this.drawSpring(ctx, anchorX, oscX_Y, massX, oscX_Y, 20, mechanismColor, strokeWidth);
+    shapes.push(this.drawSpring(anchorX, oscX_Y, massX, oscX_Y, 20, mechanismColor, strokeWidth));
 
     // Left Spring (Anchor Top)
     const anchorY = centerY - scale;
     const massY = centerY + py_val * scale;
-    this.drawSpring(ctx, oscY_X, anchorY, oscY_X, massY, 20, mechanismColor, strokeWidth);
+    shapes.push(this.drawSpring(oscY_X, anchorY, oscY_X, massY, 20, mechanismColor, strokeWidth));
 
     // 3. Draw Masses (Top and Left Only)
     const boxSize = 20;
+    const box = (x: number, y: number): VectorShape =>
+      ({ type: 'rect', x: x - boxSize / 2, y: y - boxSize / 2, width: boxSize, height: boxSize, fill: mechanismColor });
 
     // Top Mass (moves X)
-    ctx.fillStyle = mechanismColor;
-    ctx.fillRect(massX - boxSize / 2, oscX_Y - boxSize / 2, boxSize, boxSize);
-
+    shapes.push(box(massX, oscX_Y));
     // Left Mass (moves Y)
-    ctx.fillRect(oscY_X - boxSize / 2, massY - boxSize / 2, boxSize, boxSize);
+    shapes.push(box(oscY_X, massY));
 
     // 4. Draw Connection Lines (Projectors)
-    ctx.strokeStyle = mechanismColor;
-    ctx.setLineDash([]);
-    ctx.lineWidth = strokeWidth;
-
     // X Projector (From Top Mass to Point P)
-    ctx.beginPath();
-    ctx.moveTo(massX, oscX_Y);
-    ctx.lineTo(massX, py);
-    ctx.stroke();
-
+    shapes.push(line(massX, oscX_Y, massX, py));
     // Y Projector (From Left Mass to Point P)
-    ctx.beginPath();
-    ctx.moveTo(oscY_X, massY);
-    ctx.lineTo(px, massY);
-    ctx.stroke();
+    shapes.push(line(oscY_X, massY, px, massY));
 
     // 5. Draw Result Point
-    ctx.fillStyle = mechanismColor;
-    ctx.fillRect(px - boxSize / 2, py - boxSize / 2, boxSize, boxSize);
+    shapes.push(box(px, py));
+
+    return shapes;
   }
 
   // Spring Helper - Simplified to straight line
-  private drawSpring(ctx: CanvasRenderingContext2D, x1: number, y1: number, x2: number, y2: number, coils: number, color: string, width: number) {
-    ctx.beginPath();
-    ctx.strokeStyle = color;
-    ctx.lineWidth = width;
-    ctx.moveTo(x1, y1);
-    ctx.lineTo(x2, y2);
-    ctx.stroke();
-  }
-
-  private drawTable(ctx: CanvasRenderingContext2D, width: number, height: number, theme: { foreground: string, background: string }) {
-    // Grid Setup
-    const ratios = [
-      { a: 1, b: 1, label: '1:1' },
-      { a: 1, b: 2, label: '1:2' },
-      { a: 1, b: 3, label: '1:3' },
-      { a: 2, b: 3, label: '2:3' },
-      { a: 3, b: 4, label: '3:4' },
-      { a: 3, b: 5, label: '3:5' },
-      { a: 4, b: 5, label: '4:5' },
-      { a: 5, b: 6, label: '5:6' },
-    ];
-
-    const deltas = [
-      { val: 0, label: '0' },
-      { val: Math.PI / 4, label: 'π/4' },
-      { val: Math.PI / 2, label: 'π/2' },
-      { val: 3 * Math.PI / 4, label: '3π/4' },
-      { val: Math.PI, label: 'π' },
-    ];
-
-    const rows = ratios.length;
-    const cols = deltas.length;
-
-    // Layout
-    // Increase font size
-    const fontSize = width * 0.02;
+  private drawSpring(x1: number, y1: number, x2: number, y2: number, coils: number, color: string, width: number): VectorShape {
+    return { type: 'path', points: [x1, y1, x2, y2], stroke: color, lineWidth: width };
+  }
+
+  private drawTable(width: number, height: number, theme: { foreground: string, background: string }): VectorShape[] {
+    if (!this.layout || this.layout.width !== width || this.layout.height !== height) {
+      this.layout = getTableLayout(width, height);
+    }
+    const { transposed, rows, cols, fontSize, lineWidth, cellSize, startX, startY } = this.layout;
 
     // Attempt to use Geist Mono via CSS variable or fallback
     let fontFamily = 'monospace';
@@ -297,209 +1274,184 @@ export class LissajousSketch implements Sketch {
 
     if (!fontFamily) fontFamily = 'monospace';
 
-    ctx.font = `${fontSize}px ${fontFamily}`;
-    ctx.textAlign = 'center';
-    ctx.textBaseline = 'middle';
-    ctx.strokeStyle = theme.foreground;
-    ctx.fillStyle = theme.foreground;
-    ctx.lineWidth = width * 0.0015;
-
-    // Calculate Square Grid
-    // We want the grid area to be square
-    const padding = width * 0.05;
-    const labelMarginL = fontSize * 3;
-    const labelMarginT = fontSize * 2;
-
-    // Available size for the grid
-    const availW = width - (padding * 2) - labelMarginL;
-    const availH = height - (padding * 2) - labelMarginT;
-    const gridSize = Math.min(availW, availH); // Square size
-
-    // Where does the grid start? Center it.
-    const gridStartX = padding + labelMarginL + (availW - gridSize) / 2;
-    const gridStartY = padding + labelMarginT + (availH - gridSize) / 2;
-
-    const cellW = gridSize / cols;
-    const cellH = gridSize / rows;
-    const cellSize = Math.min(cellW, cellH) * 0.8;
-
-    // Draw Column Headers (Deltas)
+    const label = (text: string, x: number, y: number, align: 'center' | 'right'): VectorShape =>
+      ({ type: 'text', text, x, y, align, fontSize, fontFamily, fill: theme.foreground });
+
+    // Ratios down the side and deltas across the top, or the other way round
+    const cell = (r: number, c: number) => ({
+      ratio: TABLE_RATIOS[transposed ? c : r],
+      delta: TABLE_DELTAS[transposed ? r : c],
+    });
+
+    const shapes: VectorShape[] = [];
+
+    // Draw Column Headers
     for (let c = 0; c < cols; c++) {
-      const cx = gridStartX + c * cellW + cellW / 2;
-      const cy = gridStartY - labelMarginT / 2;
-      ctx.fillText(deltas[c].label, cx, cy);
+      const cx = startX + c * cellSize + cellSize / 2;
+      const cy = startY - fontSize;
+      const { ratio, delta } = cell(0, c);
+      shapes.push(label(transposed ? ratio.label : delta.label, cx, cy, 'center'));
     }
 
     // Draw Row Headers & Curves
     for (let r = 0; r < rows; r++) {
-      const cy = gridStartY + r * cellH + cellH / 2;
+      const cy = startY + r * cellSize + cellSize / 2;
 
       // Row Label
-      ctx.textAlign = 'right';
-      const labelX = gridStartX - fontSize / 2;
-      ctx.fillText(ratios[r].label, labelX, cy);
-      ctx.textAlign = 'center';
+      const labelX = startX - fontSize / 2;
+      const { ratio, delta } = cell(r, 0);
+      shapes.push(label(transposed ? delta.label : ratio.label, labelX, cy, 'right'));
 
       for (let c = 0; c < cols; c++) {
-        const cx = gridStartX + c * cellW + cellW / 2;
+        const cx = startX + c * cellSize + cellSize / 2;
+        const { ratio, delta } = cell(r, c);
 
         // Draw Small Lissajous
-        ctx.beginPath();
-        const samples = 100;
-        const a = ratios[r].a;
-        const b = ratios[r].b;
-        const delta = deltas[c].val;
-
-        for (let i = 0; i <= samples; i++) {
-          const t = (i / samples) * Math.PI * 2;
-          const rad = cellSize / 2;
-          const x = cx + rad * Math.sin(a * t + delta);
-          const y = cy + rad * Math.sin(b * t);
-
-          if (i === 0) ctx.moveTo(x, y);
-          else ctx.lineTo(x, y);
-        }
-        ctx.stroke();
+        const points = sampleCurve(ratio.a, ratio.b, delta.val, cx, cy, cellSize * 0.4, 100);
+        shapes.push({ type: 'path', points, stroke: theme.foreground, lineWidth });
       }
     }
+
+    return shapes;
   }
 
   public getDebugInfo() {
     return null;
   }
 
-  private updateLogic() {
-    this.t += this.timeStep;
-    this.timer++;
-
-    // Apply Physics first so we can check settlement status
-    this.applySpringForce('a');
-    this.applySpringForce('b');
-    this.applySpringForce('delta');
-
-    // Check if physically settled (at target params)
-    // The applySpringForce method snaps to target when very close/slow, so exact equality check works.
-    const isSettled =
-      this.currentParams.a === this.targetParams.a &&
-      this.currentParams.b === this.targetParams.b &&
-      this.currentParams.delta === this.targetParams.delta;
+  private updateLogic(deltaTime: number, plan: { visits: number[]; scale: number }) {
+    this.t += this.mechanismSpeed * deltaTime;
+    this.timer += deltaTime;
 
     if (this.state === 'HOLD') {
-      if (this.timer >= this.holdDuration) {
+      const hold = this.sequence[this.keyframe].hold * plan.scale;
+      // A single keyframe just holds
+      if (plan.visits.length > 1 && this.timer >= hold) {
         this.state = 'TRANSITION';
-        this.timer = 0;
-        this.switchTarget(); // Start moving to next
+        // Carry the overshoot so the pass keeps to the loop length
+        this.timer -= hold;
+        this.switchTarget(plan.visits); // Start moving to next
       }
-    } else if (this.state === 'TRANSITION') {
+    }
+
+    if (this.state === 'TRANSITION') {
+      const move = this.sequence[this.keyframe].move * plan.scale;
+
+      // Apply Physics first so we can check settlement status. A move that
+      // started mid-frame only runs for the part of the frame after its start,
+      // so transitions line up at any frame rate.
+      if (this.transition === 'spring') this.applySprings(Math.min(deltaTime, this.timer));
+      else this.applyEasing(move > 0 ? this.timer / move : 1);
+
+      // Check if physically settled (at target params)
+      // stepSpring snaps to target when very close/slow, so exact equality check works.
+      const isSettled =
+        this.currentParams.a === this.targetParams.a &&
+        this.currentParams.b === this.targetParams.b &&
+        this.currentParams.c === this.targetParams.c &&
+        this.currentParams.delta === this.targetParams.delta;
+
+      // Harmonic springs take as long as they take
+      const settleBased = this.mode === 'harmonic' && this.transition === 'spring';
       let shouldFinish = false;
 
-      if (this.mode === 'harmonic') {
-        // In Harmonic mode, we let the physics dictate the duration.
-        // We wait until settled, or a safety timeout (e.g., 1800 frames = 30s)
-        if (isSettled || this.timer > 1800) {
+      if (settleBased) {
+        // We wait until settled, or a safety timeout (30s)
+        if (isSettled || this.timer > 30) {
           shouldFinish = true;
         }
       } else {
-        // Classic mode / Table mode follows strict timing
-        if (this.timer >= this.transitionDuration) {
+        // Classic / Table springs and every curve follow strict timing
+        if (this.timer >= move) {
           shouldFinish = true;
         }
       }
 
       if (shouldFinish) {
         this.state = 'HOLD';
-        this.timer = 0;
+        this.timer = settleBased ? 0 : this.timer - move;
 
         // Force snap ensure perfect closed curves during HOLD
         this.currentParams = { ...this.targetParams };
-        this.currentVelocity = { a: 0, b: 0, delta: 0 };
+        this.currentVelocity = { a: 0, b: 0, c: 0, delta: 0 };
       }
     }
   }
 
-  private switchTarget() {
-    const prevIndex = this.currentPhaseIndex;
-    let nextIndex = this.currentPhaseIndex + this.direction;
-
-    if (nextIndex >= this.phases.length) {
-      this.direction = -1;
-      nextIndex = this.phases.length - 2;
-    } else if (nextIndex < 0) {
-      this.direction = 1;
-      nextIndex = 1;
-    }
-
-    console.log(`SWITCH TARGET: ${prevIndex} -> ${nextIndex} (Dir: ${this.direction})`);
-
-    this.currentPhaseIndex = nextIndex;
-    this.targetParams = this.phases[nextIndex];
+  // Advance along the traversal, wrapping back to the first visit
+  private switchTarget(visits: number[]) {
+    this.visit = (this.visit + 1) % visits.length;
+    this.keyframe = Math.min(visits[this.visit], this.sequence.length - 1);
+    this.targetParams = this.getKeyframeParams(this.keyframe);
+    this.fromParams = { ...this.currentParams };
   }
 
-  private applySpringForce(key: keyof Params) {
-    const displacement = this.targetParams[key] - this.currentParams[key];
-    const distAbs = Math.abs(displacement);
-
-    // Default Linear Physics
-    let force = displacement * this.stiffness;
-    let dampingFactor = this.damping;
+  private getKeyframeParams(index: number): Params {
+    const { a, b, c, delta } = this.sequence[index];
+    return { a, b, c, delta };
+  }
 
-    // Harmonic Mode: Exaggerated "Quick Start / Slow End"
-    // We use a non-linear spring that is extremely stiff when far (explosive start)
-    // and correctly damped to settle slowly without overshooting.
+  private getSpringOptions(): SpringOptions {
     if (this.mode === 'harmonic') {
-      // -- Harmonic Mode Physics Configuration (Interpolated Stiffness) --
-      // This maps distance directly to stiffness for precise control.
-
-      const maxStiffness = 1.0;   // Stiffness at large distance (Explosive start)
-      const minStiffness = 0.00001; // Stiffness at target (Crawling end - Extreme)
-      const tensionPower = 6.0;   // Curve shape. Higher = Stiffness drops earlier, creating a longer slow tail.
-      const dampZeta = 4.0;       // Damping ratio. Higher = More 'syrupy' resistance.
-
-      // Normalize distance (clamp to 1.0)
-      // We assume mostly 0->1 range. If dist > 1, we treat it as max speed.
-      const distNorm = Math.min(distAbs, 1.0);
-
-      // Interpolate Stiffness
-      // k = min + (max - min) * (dist^power)
-      const k_eff = minStiffness + (maxStiffness - minStiffness) * Math.pow(distNorm, tensionPower);
-
-      // Apply Force
-      force = displacement * k_eff;
-
-      // Calculate Damping
-      // Critical Damping c = 2 * sqrt(m * k)
-      const c_crit = 2 * Math.sqrt(this.mass * k_eff);
-      dampingFactor = c_crit * dampZeta;
-
-      // Override snap threshold to be extremely fine in harmonic mode
-      // so it doesn't snap while 'crawling'
-      if (distAbs < 0.00001 && Math.abs(this.currentVelocity[key]) < 0.00001) {
-        this.currentParams[key] = this.targetParams[key];
-        this.currentVelocity[key] = 0;
-        return; // Skip integration
-      }
+      // Extremely fine snap so it doesn't snap while 'crawling'
+      return { profile: harmonicProfile, mass: this.mass, restDistance: 0.0001, restSpeed: 0.006 };
     }
+    const { stiffness, damping } = fromFrameUnits({ stiffness: this.stiffness, damping: this.damping });
+    return {
+      profile: classicProfile(stiffness, this.noBounce ? 'critical' : damping),
+      mass: this.mass,
+      restDistance: 0.001,
+      restSpeed: 0.06,
+    };
+  }
 
-    const dampingForce = this.currentVelocity[key] * dampingFactor;
-
-    // F = ma -> a = F/m
-    const accel = (force - dampingForce) / this.mass;
-
-    this.currentVelocity[key] += accel;
-    this.currentParams[key] += this.currentVelocity[key];
-
-    // Snap to target
-    // Classic needs standard snap, Harmonic needs fine snap for slow settlement
-    const snapThreshold = this.mode === 'harmonic' ? 0.0001 : 0.001;
-    const velThreshold = this.mode === 'harmonic' ? 0.0001 : 0.001;
+  // Spring every param towards the target, integrated in seconds
+  private applySprings(deltaTime: number) {
+    const options = this.getSpringOptions();
+    for (const key of PARAM_KEYS) {
+      const state = { value: this.currentParams[key], velocity: this.currentVelocity[key] };
+      const next = stepSpring(state, this.targetParams[key], deltaTime, options);
+      this.currentParams[key] = next.value;
+      this.currentVelocity[key] = next.velocity;
+    }
+  }
 
-    if (distAbs < snapThreshold && Math.abs(this.currentVelocity[key]) < velThreshold) {
-      this.currentParams[key] = this.targetParams[key];
+  // Curve transitions: eased from where the move started, progress in [0, 1]
+  private applyEasing(progress: number) {
+    const eased = (EASINGS[this.easing] ?? EASINGS['ease-in-out'])(Math.min(progress, 1));
+    for (const key of PARAM_KEYS) {
+      const from = this.fromParams[key];
+      this.currentParams[key] = from + (this.targetParams[key] - from) * eased;
       this.currentVelocity[key] = 0;
     }
   }
 
-  private getPointAt(t: number) {
+  // Pen position after t radians of swing (unit space) and the share of the
+  // initial amplitude the pendulums still have
+  private getHarmonographPointAt(t: number) {
+    const { a, b } = this.currentParams;
+    const delta = this.currentParams.delta + this.deltaShift + this.deltaOffset;
+
+    const swing = (pendulums: Pendulum[], freq: number, shift: number) => {
+      let value = 0;
+      let energy = 0;
+      let total = 0;
+      for (const p of pendulums) {
+        const damping = Math.exp(-p.decay * t);
+        value += p.amp * damping * Math.sin(freq * p.freq * t + p.phase + shift);
+        energy += p.amp * damping;
+        total += p.amp;
+      }
+      // Normalized so the pen stays inside the curve's usual radius
+      return total > 0 ? { value: value / total, energy: energy / total } : { value: 0, energy: 0 };
+    };
+
+    const x = swing(this.pendulumsX, a, delta);
+    const y = swing(this.pendulumsY, b, 0);
+    return { x: x.value, y: y.value, energy: (x.energy + y.energy) / 2 };
+  }
+
+  private getPointAt(t: number, params: Params = this.currentParams) {
     const R = 1;
 
     // We now respect the user keyframes for delta!
@@ -507,8 +1459,8 @@ export class LissajousSketch implements Sketch {
     // x = A sin(at + delta)
     // y = B sin(bt)
 
-    const x = R * Math.sin(this.currentParams.a * t + this.currentParams.delta);
-    const y = R * Math.sin(this.currentParams.b * t);
+    const x = R * Math.sin(params.a * t + params.delta + this.deltaShift + this.deltaOffset);
+    const y = R * Math.sin(params.b * t);
 
     return { x, y };
   }
@@ -0,0 +1,95 @@
+import { ParamKeyframe, ParamSchema, ParamValue, ParamValues, Sketch } from './types';
+
+// Copy arrays (and keyframe objects) so edits never touch schema defaults
+export function cloneParamValue(value: ParamValue): ParamValue {
+  if (!Array.isArray(value)) return value;
+  return value.map(v => typeof v === 'number' ? v : { ...v }) as number[] | ParamKeyframe[];
+}
+
+export function getDefaultParams(schema: ParamSchema = []): ParamValues {
+  const values: ParamValues = {};
+  for (const def of schema) {
+    values[def.key] = cloneParamValue(def.default);
+  }
+  return values;
+}
+
+// Push every declared param into the sketch instance
+export function applyParams(sketch: Sketch, values: ParamValues) {
+  if (!sketch.params || !sketch.setParam) return;
+  for (const def of sketch.params) {
+    if (def.key in values) {
+      sketch.setParam(def.key, values[def.key]);
+    }
+  }
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+export const isHexColor = (value: unknown): value is string =>
+  typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+// Validate untrusted values (URLs, preset files) against a schema: unknown
+// keys and wrong types are dropped, numbers are clamped into range. File
+// params are dropped too since object URLs don't survive a reload.
+export function sanitizeParams(schema: ParamSchema = [], raw: Record<string, unknown>): ParamValues {
+  const values: ParamValues = {};
+  for (const def of schema) {
+    if (!(def.key in raw)) continue;
+    const value = raw[def.key];
+
+    switch (def.type) {
+      case 'number':
+        if (typeof value === 'number' && Number.isFinite(value)) {
+          values[def.key] = clamp(value, def.min, def.max);
+        }
+        break;
+      case 'enum':
+        if (def.options.some(opt => opt.value === value)) {
+          values[def.key] = value as string;
+        }
+        break;
+      case 'boolean':
+        if (typeof value === 'boolean') values[def.key] = value;
+        break;
+      case 'color':
+        if (isHexColor(value)) values[def.key] = value;
+        break;
+      case 'thresholds':
+        if (Array.isArray(value) && value.every(v => typeof v === 'number' && Number.isFinite(v))) {
+          values[def.key] = value.map(v => clamp(v, def.min, def.max)).sort((a, b) => a - b);
+        }
+        break;
+      case 'file':
+        break;
+      case 'keyframes':
+        if (Array.isArray(value)) {
+          // Fields added since the value was saved take their default, keyframes
+          // still missing one are dropped, too few left keeps the default
+          const keyframes = value
+            .filter((v): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v))
+            .map(v => Object.fromEntries(def.fields.map(f => [f.key, v[f.key] ?? f.default])))
+            .filter(v => def.fields.every(f => typeof v[f.key] === 'number' && Number.isFinite(v[f.key])))
+            .slice(0, def.maxLength)
+            .map(v => Object.fromEntries(def.fields.map(f => [f.key, clamp(v[f.key] as number, f.min, f.max)])));
+          if (keyframes.length >= def.minLength) values[def.key] = keyframes;
+        }
+        break;
+    }
+  }
+  return values;
+}
+
+// Only the values that differ from the schema defaults
+export function getParamOverrides(schema: ParamSchema = [], values: ParamValues): ParamValues {
+  const overrides: ParamValues = {};
+  for (const def of schema) {
+    if (!(def.key in values)) continue;
+    const value = values[def.key];
+    // Arrays hold numbers or flat keyframe objects, JSON compares both
+    const same = Array.isArray(value) && Array.isArray(def.default)
+      ? JSON.stringify(value) === JSON.stringify(def.default)
+      : value === def.default;
+    if (!same) overrides[def.key] = value;
+  }
+  return overrides;
+}
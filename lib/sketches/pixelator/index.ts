@@ -1,8 +1,208 @@
 
-import { Sketch, SketchContext } from '../types';
+import { ParamSchema, ParamValue, Sketch, SketchContext, SketchKeyEvent, SketchPointerEvent, SketchPreset } from '../types';
+import type { SketchGL } from '@/lib/gl';
+import type { Random } from '@/lib/random';
+
+const DEFAULT_VIDEO_URL = '/sculpture.mp4';
+// Longest wait for the video to load or seek before the frame fails (ms)
+const VIDEO_TIMEOUT = 10_000;
+
+// Tile atlas for the GPU renderer: one row per tile type, one column per
+// variant. 6 columns split evenly into the 2 and 3 variants the skins use.
+const ATLAS_COLUMNS = 6;
+const ATLAS_ROWS = 5;
+const MAX_THRESHOLDS = 16;
+
+// One fragment per output pixel: sample the video under the cell center,
+// bucket its luminance into a tile type and look the tile up in the atlas.
+// Mirrors the Canvas2D renderer below.
+const TILE_SHADER = `#version 300 es
+precision highp float;
+
+in vec2 v_uv;
+out vec4 outColor;
+
+uniform sampler2D u_video;
+uniform sampler2D u_atlas;
+uniform sampler2D u_cells; // R: painted type + 1 (0 = none), G: variant column
+uniform vec2 u_grid; // cols, rows
+uniform vec4 u_source; // Sampled video rect, normalized
+uniform vec4 u_target; // Where it lands on the grid, in cells
+uniform float u_thresholds[${MAX_THRESHOLDS}];
+uniform int u_thresholdCount;
+uniform int u_tileTypes;
+uniform bool u_invert;
+
+void main() {
+  vec2 grid = v_uv * u_grid;
+  vec2 cell = min(floor(grid), u_grid - 1.0);
+  vec2 local = grid - cell;
+
+  // Black outside the picture (contain, or cover zoomed out)
+  float lumi = 0.0;
+  vec2 p = (cell + 0.5 - u_target.xy) / u_target.zw;
+  vec2 source = u_source.xy + p * u_source.zw;
+  if (all(greaterThanEqual(p, vec2(0.0))) && all(lessThan(p, vec2(1.0))) &&
+      all(greaterThanEqual(source, vec2(0.0))) && all(lessThan(source, vec2(1.0)))) {
+    vec3 rgb = textureLod(u_video, source, 0.0).rgb * 255.0;
+    lumi = dot(rgb, vec3(0.299, 0.587, 0.114));
+  }
+
+  int type;
+  if (u_thresholdCount > 0) {
+    type = u_thresholdCount;
+    for (int t = 0; t < ${MAX_THRESHOLDS}; t++) {
+      if (t >= u_thresholdCount) break;
+      if (lumi < u_thresholds[t]) {
+        type = t;
+        break;
+      }
+    }
+  } else {
+    type = int(floor(lumi / 256.0 * float(u_tileTypes)));
+  }
+  if (u_invert) type = (u_thresholdCount > 0 ? u_thresholdCount : u_tileTypes - 1) - type;
+
+  vec2 data = texelFetch(u_cells, ivec2(cell), 0).rg * 255.0;
+  if (data.r > 0.5) type = int(data.r + 0.5) - 1;
+
+  // Types without a tile stay black, like the canvas renderer
+  if (type < 0 || type >= ${ATLAS_ROWS}) {
+    outColor = vec4(0.0, 0.0, 0.0, 1.0);
+    return;
+  }
+  vec2 tile = vec2(floor(data.g + 0.5), float(type));
+  outColor = textureLod(u_atlas, (tile + local) / vec2(${ATLAS_COLUMNS}.0, ${ATLAS_ROWS}.0), 0.0);
+}`;
+
+interface GpuState {
+  layer: SketchGL;
+  program: WebGLProgram;
+  video: WebGLTexture;
+  atlas: WebGLTexture;
+  cells: WebGLTexture;
+  atlasKey: string;
+}
+
+export const PIXELATOR_PARAMS: ParamSchema = [
+  {
+    key: 'skin',
+    label: 'skin',
+    type: 'enum',
+    default: 'default',
+    options: [
+      { value: 'default', label: 'Default' },
+      { value: 'minesweeper', label: 'Minesweeper' },
+    ],
+  },
+  {
+    key: 'renderer',
+    label: 'renderer',
+    type: 'enum',
+    display: 'buttons',
+    default: 'gpu',
+    options: [
+      { value: 'gpu', label: 'GPU' },
+      { value: 'canvas', label: 'Canvas' },
+    ],
+    // Both look the same, the GPU one stays fast at high column counts
+    hint: () => 'gpu falls back to canvas without WebGL2',
+  },
+  {
+    key: 'videoUrl',
+    label: 'video',
+    group: 'source',
+    type: 'file',
+    accept: 'video/*',
+    default: null,
+  },
+  {
+    key: 'invert',
+    label: 'invert tiles',
+    group: 'source',
+    type: 'boolean',
+    default: false,
+  },
+  {
+    key: 'thresholds',
+    label: 'luminance ranges',
+    group: 'source',
+    type: 'thresholds',
+    default: [51, 102, 153, 204],
+    min: 0,
+    max: 255,
+  },
+  {
+    key: 'fitMode',
+    label: 'fit',
+    group: 'source',
+    type: 'enum',
+    display: 'buttons',
+    default: 'cover',
+    options: [
+      { value: 'cover', label: 'Cover (Fill)' },
+      { value: 'contain', label: 'Fit (Full)' },
+    ],
+  },
+  {
+    key: 'zoom',
+    label: 'zoom',
+    group: 'source',
+    type: 'number',
+    default: 1,
+    min: 0.5,
+    max: 3,
+    step: 0.1,
+    format: (v) => `${v.toFixed(1)}x`,
+  },
+  {
+    key: 'cols',
+    label: 'resolution (cols)',
+    group: 'source',
+    type: 'number',
+    default: 40,
+    min: 10,
+    max: 400,
+    step: 1,
+  },
+];
+
+export const PIXELATOR_PRESETS: SketchPreset[] = [
+  { name: 'default', params: {} },
+  { name: 'minesweeper', params: { skin: 'minesweeper', cols: 30 } },
+  { name: 'negative', params: { invert: true } },
+  { name: 'coarse', params: { cols: 20, fitMode: 'contain' } },
+  { name: 'fine', params: { cols: 120 } },
+];
+
+// Resolves on the event or a load error, rejects if neither comes in time
+function untilVideo(video: HTMLVideoElement, event: 'loadeddata' | 'seeked') {
+  return new Promise<void>((resolve, reject) => {
+    const done = () => {
+      clearTimeout(timeout);
+      video.removeEventListener(event, done);
+      video.removeEventListener('error', done);
+      resolve();
+    };
+    const timeout = setTimeout(() => {
+      video.removeEventListener(event, done);
+      video.removeEventListener('error', done);
+      reject(new Error(`Video ${event === 'seeked' ? 'seek' : 'load'} timed out`));
+    }, VIDEO_TIMEOUT);
+    video.addEventListener(event, done);
+    video.addEventListener('error', done);
+  });
+}
 
 export class PixelatorSketch implements Sketch {
+  readonly params = PIXELATOR_PARAMS;
+  readonly presets = PIXELATOR_PRESETS;
+  // Decodes its source through a <video> element
+  readonly requiresDom = true;
+  readonly contextType = 'webgl2';
+
   private video: HTMLVideoElement | null = null;
+  private videoUrl: string = DEFAULT_VIDEO_URL;
   private isVideoReady: boolean = false;
   private offscreenCanvas: HTMLCanvasElement | null = null;
   private offscreenCtx: CanvasRenderingContext2D | null = null;
@@ -15,26 +215,40 @@ export class PixelatorSketch implements Sketch {
   public skin: 'default' | 'minesweeper' = 'default';
   public invert: boolean = false;
   public thresholds: number[] = [];
+  public renderer: 'gpu' | 'canvas' = 'gpu';
 
   // Font
   private fontFamily: string = 'monospace';
 
   // Throttle (Slower updates)
   public fps: number = 60;
-  private lastUpdate: number = 0;
+  private lastUpdate: number = -Infinity;
 
   // Computed
   private tileSize: number = 0;
   private rows: number = 0;
 
+  // Painted tiles: cell index -> tile type, drawn over the video.
+  // Reset whenever the grid changes.
+  private paint: Map<number, number> = new Map();
+  public brush: number = 4;
+
   // Buffers
   private renderCanvas: HTMLCanvasElement | null = null;
   private renderCtx: CanvasRenderingContext2D | null = null;
+  // Whichever buffer the last update drew into
+  private output: HTMLCanvasElement | OffscreenCanvas | null = null;
+
+  // GPU renderer, rebuilt whenever the host hands over a new GL layer
+  private gpu: GpuState | null = null;
+  // Layer whose shader failed to build, the canvas renderer stands in for it
+  private failedLayer: SketchGL | null = null;
+  private cellsDirty: boolean = true;
 
   constructor() {
     if (typeof window !== 'undefined') {
       this.video = document.createElement('video');
-      this.video.src = '/sculpture.mp4';
+      this.video.src = DEFAULT_VIDEO_URL;
       this.video.loop = true;
       this.video.muted = true;
       this.video.playsInline = true;
@@ -48,6 +262,9 @@ export class PixelatorSketch implements Sketch {
   }
 
   setup({ width, height }: SketchContext) {
+    // A new run may use a new seed (variants) and a new GL layer
+    this.gpu = null;
+    this.cellsDirty = true;
     if (typeof window !== 'undefined') {
       this.offscreenCanvas = document.createElement('canvas');
       this.offscreenCtx = this.offscreenCanvas.getContext('2d', { willReadFrequently: true });
@@ -56,11 +273,56 @@ export class PixelatorSketch implements Sketch {
       this.renderCtx = this.renderCanvas.getContext('2d');
     }
     this.recalculateGrid(width, height);
+
+    // Resume realtime playback if an offline run left the video paused
+    if (this.isVideoReady && this.video?.paused) {
+      this.video.play().catch(() => { });
+    }
+  }
+
+  // A video that failed to load draws the placeholder, one that never loads
+  // or seeks fails the frame after VIDEO_TIMEOUT
+  async prepareFrame({ time }: SketchContext) {
+    const video = this.video;
+    if (!video || video.error) return;
+
+    // Offline frames are sampled by seeking, not by playback
+    if (!video.paused) video.pause();
+
+    if (video.readyState < video.HAVE_CURRENT_DATA) {
+      await untilVideo(video, 'loadeddata');
+      if (video.error) return;
+      video.pause();
+    }
+
+    // Loop the source the same way realtime playback does
+    const target = video.duration ? time % video.duration : 0;
+    if (Math.abs(video.currentTime - target) < 0.0001) return;
+
+    const seeked = untilVideo(video, 'seeked');
+    video.currentTime = target;
+    await seeked;
+  }
+
+  // The video plays on its own clock, keep it in step with the transport
+  onPlayback(playing: boolean, speed: number) {
+    const video = this.video;
+    if (!video || !this.isVideoReady) return;
+    video.playbackRate = speed;
+    if (playing) video.play().catch(() => { });
+    else video.pause();
+  }
+
+  // Row count follows the canvas aspect, painted tiles don't survive a new grid
+  resize(width: number, height: number) {
+    this.recalculateGrid(width, height);
   }
 
   private recalculateGrid(width: number, height: number) {
     this.tileSize = width / this.cols;
     this.rows = Math.ceil(height / this.tileSize);
+    this.paint.clear();
+    this.cellsDirty = true;
 
     if (this.offscreenCanvas) {
       this.offscreenCanvas.width = this.cols;
@@ -70,24 +332,95 @@ export class PixelatorSketch implements Sketch {
     if (this.renderCanvas) {
       this.renderCanvas.width = width;
       this.renderCanvas.height = height;
-      this.lastUpdate = 0;
+      this.lastUpdate = -Infinity;
+    }
+  }
+
+  setParam(key: string, value: ParamValue) {
+    switch (key) {
+      case 'skin':
+        this.skin = value as 'default' | 'minesweeper';
+        break;
+      case 'videoUrl':
+        this.setVideoUrl((value as string | null) ?? DEFAULT_VIDEO_URL);
+        break;
+      case 'invert':
+        this.invert = value as boolean;
+        break;
+      case 'thresholds':
+        this.thresholds = value as number[];
+        break;
+      case 'fitMode':
+        this.fitMode = value as 'cover' | 'contain';
+        break;
+      case 'zoom':
+        this.zoom = value as number;
+        break;
+      case 'cols':
+        this.cols = value as number;
+        break;
+      case 'renderer':
+        this.renderer = value as 'gpu' | 'canvas';
+        this.lastUpdate = -Infinity;
+        break;
+    }
+  }
+
+  // Left button paints with the brush, right button (or alt) erases
+  onPointerDown(e: SketchPointerEvent) {
+    this.paintAt(e);
+  }
+
+  onPointerMove(e: SketchPointerEvent) {
+    if (e.buttons) this.paintAt(e);
+  }
+
+  // 0-4 pick the brush tile, c clears the painting
+  onKeyDown({ key }: SketchKeyEvent) {
+    if (/^[0-4]$/.test(key)) {
+      this.brush = parseInt(key);
+      return true;
+    }
+    if (key === 'c') {
+      this.paint.clear();
+      this.cellsDirty = true;
+      this.lastUpdate = -Infinity;
+      return true;
     }
+    return false;
+  }
+
+  private paintAt({ x, y, buttons, altKey }: SketchPointerEvent) {
+    if (!this.tileSize) return;
+    const col = Math.floor(x / this.tileSize);
+    const row = Math.floor(y / this.tileSize);
+    if (col < 0 || col >= this.cols || row < 0 || row >= this.rows) return;
+
+    const cell = row * this.cols + col;
+    if (buttons & 2 || altKey) this.paint.delete(cell);
+    else this.paint.set(cell, this.brush);
+    this.cellsDirty = true;
+    // Redraw now instead of waiting for the throttle
+    this.lastUpdate = -Infinity;
   }
 
   public setVideoUrl(url: string) {
+    if (url === this.videoUrl) return;
+    this.videoUrl = url;
     if (this.video) {
       this.video.src = url;
       this.video.play();
     }
   }
 
-  draw({ ctx, width, height, theme }: SketchContext) {
+  draw({ ctx, gl, width, height, time, random }: SketchContext) {
     // Attempt to fetch correct font if we haven't yet (or if it's still default)
     if (typeof window !== 'undefined' && this.fontFamily === 'monospace') {
       const computed = getComputedStyle(document.documentElement).getPropertyValue('--font-geist-mono');
       if (computed) this.fontFamily = computed.trim();
     }
 
+    // Picks up cols edits (size changes come through resize)
     if (Math.abs(width / this.cols - this.tileSize) > 0.1) {
       this.recalculateGrid(width, height);
     }
@@ -95,124 +428,245 @@ export class PixelatorSketch implements Sketch {
     if (!this.renderCanvas || !this.renderCtx) return;
 
     // --- Update Loop (Throttled) ---
-    const now = performance.now();
+    // Driven by ctx.time (not the wall clock) so offline steps match realtime
+    const now = time * 1000;
     const interval = 1000 / this.fps;
 
-    if (now - this.lastUpdate > interval) {
-      this.lastUpdate = now - (now % interval);
+    // Half a millisecond of slack absorbs rAF jitter and float error at fps == frame rate
+    if (now - this.lastUpdate >= interval - 0.5 || now < this.lastUpdate) {
+      this.lastUpdate = now;
 
       if (!this.video || !this.isVideoReady || !this.offscreenCtx || !this.offscreenCanvas) {
         this.renderCtx.fillStyle = "#000000";
         this.renderCtx.fillRect(0, 0, width, height);
         this.renderCtx.fillStyle = "#ffffff";
         this.renderCtx.fillText("Loading Video...", 20, 20);
+        this.output = this.renderCanvas;
+      } else if (gl && this.renderer === 'gpu' && this.renderGpu(gl, width, height, random)) {
+        this.output = gl.canvas;
       } else {
-        // Clear render buffer
-        this.renderCtx.fillStyle = "#000000";
-        this.renderCtx.fillRect(0, 0, width, height);
+        this.renderCanvas2D(width, height, random);
+        this.output = this.renderCanvas;
+      }
+    }
 
-        // Clear tiny offscreen
-        this.offscreenCtx.fillStyle = "#000000";
-        this.offscreenCtx.fillRect(0, 0, this.cols, this.rows);
-
-        const vw = this.video.videoWidth;
-        const vh = this.video.videoHeight;
-        const videoAspect = vw / vh;
-        const targetAspect = this.cols / this.rows;
-
-        let sx, sy, sw, sh;
-        let dx = 0, dy = 0, dw = this.cols, dh = this.rows;
-
-        if (this.fitMode === 'cover') {
-          if (videoAspect > targetAspect) {
-            sh = vh;
-            sw = vh * targetAspect;
-          } else {
-            sw = vw;
-            sh = vw / targetAspect;
-          }
+    if (this.output) ctx.drawImage(this.output, 0, 0);
+  }
 
-          // Zoom
-          sw /= this.zoom;
-          sh /= this.zoom;
+  // Where the video lands on the cols x rows grid for the current fit and zoom.
+  // Source rect in video pixels, target rect in cells.
+  private getVideoRect(vw: number, vh: number) {
+    const videoAspect = vw / vh;
+    const targetAspect = this.cols / this.rows;
 
-          // Center result
-          sx = (vw - sw) / 2;
-          sy = (vh - sh) / 2;
+    let sx = 0, sy = 0, sw = vw, sh = vh;
+    let dx = 0, dy = 0, dw = this.cols, dh = this.rows;
 
-          this.offscreenCtx.drawImage(this.video, sx, sy, sw, sh, 0, 0, this.cols, this.rows);
-        } else {
-          if (videoAspect > targetAspect) {
-            dw = this.cols;
-            dh = this.cols / videoAspect;
-          } else {
-            dh = this.rows;
-            dw = this.rows * videoAspect;
-          }
+    if (this.fitMode === 'cover') {
+      if (videoAspect > targetAspect) {
+        sh = vh;
+        sw = vh * targetAspect;
+      } else {
+        sw = vw;
+        sh = vw / targetAspect;
+      }
 
-          // Zoom
-          dw *= this.zoom;
-          dh *= this.zoom;
+      // Zoom
+      sw /= this.zoom;
+      sh /= this.zoom;
+
+      // Center result
+      sx = (vw - sw) / 2;
+      sy = (vh - sh) / 2;
+    } else {
+      if (videoAspect > targetAspect) {
+        dw = this.cols;
+        dh = this.cols / videoAspect;
+      } else {
+        dh = this.rows;
+        dw = this.rows * videoAspect;
+      }
 
-          // Center result
-          dx = (this.cols - dw) / 2;
-          dy = (this.rows - dh) / 2;
+      // Zoom
+      dw *= this.zoom;
+      dh *= this.zoom;
 
-          this.offscreenCtx.drawImage(this.video, 0, 0, vw, vh, dx, dy, dw, dh);
-        }
+      // Center result
+      dx = (this.cols - dw) / 2;
+      dy = (this.rows - dh) / 2;
+    }
 
-        const frameData = this.offscreenCtx.getImageData(0, 0, this.cols, this.rows).data;
-
-        for (let y = 0; y < this.rows; y++) {
-          for (let x = 0; x < this.cols; x++) {
-            const i = (y * this.cols + x) * 4;
-            const r = frameData[i];
-            const g = frameData[i + 1];
-            const b = frameData[i + 2];
-
-            const lumi = 0.299 * r + 0.587 * g + 0.114 * b;
-
-            let typeIndex = 0;
-            if (this.thresholds && this.thresholds.length > 0) {
-              // Custom ranges
-              typeIndex = this.thresholds.length;
-              for (let t = 0; t < this.thresholds.length; t++) {
-                if (lumi < this.thresholds[t]) {
-                  typeIndex = t;
-                  break;
-                }
-              }
-            } else {
-              // Default linear mapping
-              typeIndex = Math.floor((lumi / 256) * this.tileTypes);
-            }
+    return { sx, sy, sw, sh, dx, dy, dw, dh };
+  }
 
-            if (this.invert) {
-              const maxIndex = (this.thresholds && this.thresholds.length > 0) ? this.thresholds.length : this.tileTypes - 1;
-              typeIndex = maxIndex - typeIndex;
-            }
+  private renderCanvas2D(width: number, height: number, random: Random) {
+    if (!this.video || !this.renderCtx || !this.offscreenCtx) return;
+
+    // Clear render buffer
+    this.renderCtx.fillStyle = "#000000";
+    this.renderCtx.fillRect(0, 0, width, height);
+
+    // Clear tiny offscreen
+    this.offscreenCtx.fillStyle = "#000000";
+    this.offscreenCtx.fillRect(0, 0, this.cols, this.rows);
+
+    const { sx, sy, sw, sh, dx, dy, dw, dh } = this.getVideoRect(this.video.videoWidth, this.video.videoHeight);
+    this.offscreenCtx.drawImage(this.video, sx, sy, sw, sh, dx, dy, dw, dh);
+
+    const frameData = this.offscreenCtx.getImageData(0, 0, this.cols, this.rows).data;
+
+    for (let y = 0; y < this.rows; y++) {
+      for (let x = 0; x < this.cols; x++) {
+        const i = (y * this.cols + x) * 4;
+        const r = frameData[i];
+        const g = frameData[i + 1];
+        const b = frameData[i + 2];
 
-            // Gap Fix: Integer Math
-            const xPos = Math.floor(x * (width / this.cols));
-            const yPos = Math.floor(y * (height / this.rows));
-            const nextX = Math.floor((x + 1) * (width / this.cols));
-            const nextY = Math.floor((y + 1) * (height / this.rows));
+        const lumi = 0.299 * r + 0.587 * g + 0.114 * b;
 
-            if (this.skin === 'minesweeper') {
-              this.drawMinesweeperTile(this.renderCtx, xPos, yPos, nextX - xPos, nextY - yPos, typeIndex);
-            } else {
-              this.drawDefaultTile(this.renderCtx, xPos, yPos, nextX - xPos, nextY - yPos, typeIndex);
+        let typeIndex = 0;
+        if (this.thresholds && this.thresholds.length > 0) {
+          // Custom ranges
+          typeIndex = this.thresholds.length;
+          for (let t = 0; t < this.thresholds.length; t++) {
+            if (lumi < this.thresholds[t]) {
+              typeIndex = t;
+              break;
             }
           }
+        } else {
+          // Default linear mapping
+          typeIndex = Math.floor((lumi / 256) * this.tileTypes);
+        }
+
+        if (this.invert) {
+          const maxIndex = (this.thresholds && this.thresholds.length > 0) ? this.thresholds.length : this.tileTypes - 1;
+          typeIndex = maxIndex - typeIndex;
+        }
+
+        const painted = this.paint.get(y * this.cols + x);
+        if (painted !== undefined) typeIndex = painted;
+
+        // Gap Fix: Integer Math
+        const xPos = Math.floor(x * (width / this.cols));
+        const yPos = Math.floor(y * (height / this.rows));
+        const nextX = Math.floor((x + 1) * (width / this.cols));
+        const nextY = Math.floor((y + 1) * (height / this.rows));
+
+        // Stable per-cell variation (digits etc.), keyed on the grid cell
+        const variant = random.hash(x, y);
+
+        this.drawTile(this.renderCtx, xPos, yPos, nextX - xPos, nextY - yPos, typeIndex, variant);
+      }
+    }
+  }
+
+  private drawTile(ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, type: number, variant: number) {
+    if (this.skin === 'minesweeper') {
+      this.drawMinesweeperTile(ctx, x, y, w, h, type, variant);
+    } else {
+      this.drawDefaultTile(ctx, x, y, w, h, type, variant);
+    }
+  }
+
+  // Same output as renderCanvas2D without per-tile Canvas2D calls: tiles are
+  // drawn once into an atlas, the shader does sampling and lookup per pixel.
+  // False when the layer can't run the shader, the caller draws with Canvas2D.
+  private renderGpu(layer: SketchGL, width: number, height: number, random: Random) {
+    if (!this.video || this.failedLayer === layer) return false;
+    const { gl } = layer;
+
+    if (this.gpu?.layer !== layer) {
+      try {
+        this.gpu = {
+          layer,
+          program: layer.createProgram(TILE_SHADER),
+          video: layer.createTexture('linear'),
+          atlas: layer.createTexture('nearest'),
+          cells: layer.createTexture('nearest'),
+          atlasKey: '',
+        };
+      } catch (e) {
+        console.warn("Pixelator GPU renderer unavailable, using canvas:", e);
+        this.failedLayer = layer;
+        this.gpu = null;
+        return false;
+      }
+      this.cellsDirty = true;
+    }
+    const gpu = this.gpu;
+
+    if (layer.canvas.width !== width || layer.canvas.height !== height) {
+      layer.resize(width, height);
+    }
+
+    // Atlas tiles are cell sized, rebuilt when anything that shapes them changes
+    const tileW = Math.ceil(width / this.cols);
+    const tileH = Math.ceil(height / this.rows);
+    const atlasKey = `${this.skin}:${tileW}x${tileH}:${this.fontFamily}`;
+    if (gpu.atlasKey !== atlasKey) {
+      const atlas = document.createElement('canvas');
+      atlas.width = tileW * ATLAS_COLUMNS;
+      atlas.height = tileH * ATLAS_ROWS;
+      const atlasCtx = atlas.getContext('2d');
+      if (!atlasCtx) return false;
+      gpu.atlasKey = atlasKey;
+      for (let type = 0; type < ATLAS_ROWS; type++) {
+        for (let column = 0; column < ATLAS_COLUMNS; column++) {
+          // Column centers, so floor(variant * n) picks the same glyph as the canvas renderer
+          this.drawTile(atlasCtx, column * tileW, type * tileH, tileW, tileH, type, (column + 0.5) / ATLAS_COLUMNS);
+        }
+      }
+      layer.uploadTexture(gpu.atlas, atlas);
+    }
+
+    // Per-cell painting and variant column
+    if (this.cellsDirty) {
+      this.cellsDirty = false;
+      const cells = new Uint8Array(this.cols * this.rows * 2);
+      for (let y = 0; y < this.rows; y++) {
+        for (let x = 0; x < this.cols; x++) {
+          const i = (y * this.cols + x) * 2;
+          const painted = this.paint.get(y * this.cols + x);
+          cells[i] = painted === undefined ? 0 : painted + 1;
+          cells[i + 1] = Math.floor(random.hash(x, y) * ATLAS_COLUMNS);
         }
       }
+      layer.uploadData(gpu.cells, this.cols, this.rows, 2, cells);
     }
 
-    ctx.drawImage(this.renderCanvas, 0, 0);
+    layer.uploadTexture(gpu.video, this.video);
+
+    const vw = this.video.videoWidth;
+    const vh = this.video.videoHeight;
+    const { sx, sy, sw, sh, dx, dy, dw, dh } = this.getVideoRect(vw, vh);
+    const thresholds = this.thresholds.slice(0, MAX_THRESHOLDS);
+    const uniform = (name: string) => gl.getUniformLocation(gpu.program, name);
+
+    gl.useProgram(gpu.program);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, gpu.video);
+    gl.activeTexture(gl.TEXTURE1);
+    gl.bindTexture(gl.TEXTURE_2D, gpu.atlas);
+    gl.activeTexture(gl.TEXTURE2);
+    gl.bindTexture(gl.TEXTURE_2D, gpu.cells);
+    gl.uniform1i(uniform('u_video'), 0);
+    gl.uniform1i(uniform('u_atlas'), 1);
+    gl.uniform1i(uniform('u_cells'), 2);
+    gl.uniform2f(uniform('u_grid'), this.cols, this.rows);
+    gl.uniform4f(uniform('u_source'), sx / vw, sy / vh, sw / vw, sh / vh);
+    gl.uniform4f(uniform('u_target'), dx, dy, dw, dh);
+    if (thresholds.length > 0) gl.uniform1fv(uniform('u_thresholds'), thresholds);
+    gl.uniform1i(uniform('u_thresholdCount'), thresholds.length);
+    gl.uniform1i(uniform('u_tileTypes'), this.tileTypes);
+    gl.uniform1i(uniform('u_invert'), this.invert ? 1 : 0);
+
+    layer.drawQuad(gpu.program);
+    return true;
   }
 
   // Original Logic renamed
-  private drawDefaultTile(ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, type: number) {
+  private drawDefaultTile(ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, type: number, variant: number) {
     const size = Math.min(w, h);
 
     ctx.textAlign = 'center';
@@ -235,7 +689,7 @@ export class PixelatorSketch implements Sketch {
         ctx.fillStyle = '#bbbbbb';
         ctx.fillRect(x, y, w, h);
         ctx.fillStyle = '#111111';
-        const char = Math.abs(Math.sin(cx * cy)) > 0.5 ? '1' : '0';
+        const char = variant < 0.5 ? '1' : '0';
         ctx.fillText(char, cx, cy);
         break;
       case 2:
@@ -263,7 +717,7 @@ export class PixelatorSketch implements Sketch {
     }
   }
 
-  private drawMinesweeperTile(ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, type: number) {
+  private drawMinesweeperTile(ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, type: number, variant: number) {
     const size = Math.min(w, h);
     const cx = x + w / 2;
     const cy = y + h / 2;
@@ -313,7 +767,7 @@ export class PixelatorSketch implements Sketch {
       case 0: // Number 3-5 (Darkest)
         drawBevel(true);
         // Randomize 3, 4, 5
-        const n0 = 3 + Math.floor(Math.abs(Math.sin(cx * cy)) * 3); // 3, 4, 5
+        const n0 = 3 + Math.floor(variant * 3); // 3, 4, 5
         ctx.fillStyle = n0 === 3 ? '#FF0000' : (n0 === 4 ? '#000080' : '#800000');
         ctx.fillText(n0.toString(), cx, cy);
         break;
@@ -355,7 +809,7 @@ export class PixelatorSketch implements Sketch {
 
       case 3: // Number 1-2 (Light)
         drawBevel(true);
-        const n3 = 1 + Math.floor(Math.abs(Math.cos(cx * cy)) * 2); // 1, 2
+        const n3 = 1 + Math.floor(variant * 2); // 1, 2
         ctx.fillStyle = n3 === 1 ? '#0000FF' : '#008000';
         ctx.fillText(n3.toString(), cx, cy);
         break;
@@ -1,25 +1,227 @@
+import type { AudioFeatures } from '@/lib/audio';
+import type { SketchGL } from '@/lib/gl';
+import type { VectorScene } from '@/lib/vector';
+import type { PlotPath } from '@/lib/plotter';
+import type { Random } from '@/lib/random';
 
 export interface SketchContext {
   width: number;
   height: number;
   ctx: CanvasRenderingContext2D;
+  // WebGL2 layer for sketches with contextType 'webgl2' (see lib/gl.ts).
+  // Null otherwise, or when WebGL2 is unavailable: draw with ctx instead.
+  gl: SketchGL | null;
   time: number; // Global time
   deltaTime: number;
+  duration: number; // Loop length in seconds (matches the recording duration)
   frame: number;
+  // Seeded PRNG + noise, identical for the same seed (see lib/random.ts)
+  random: Random;
+  // Analysis of the host soundtrack for this frame, null without audio
+  audio: AudioFeatures | null;
   theme: {
     foreground: string;
     background: string;
   }
 }
 
+// --- Input ---
+// Coordinates are in sketch space (canvas pixels), already mapped through the
+// on-screen scaling. Input is only delivered in realtime, never while recording.
+
+interface SketchInputModifiers {
+  shiftKey: boolean;
+  altKey: boolean;
+  ctrlKey: boolean;
+  metaKey: boolean;
+}
+
+export interface SketchPointerEvent extends SketchInputModifiers {
+  x: number;
+  y: number;
+  buttons: number; // Bitmask, 1 = primary, 2 = secondary
+  pointerType: string;
+}
+
+export interface SketchWheelEvent extends SketchInputModifiers {
+  x: number;
+  y: number;
+  deltaX: number;
+  deltaY: number;
+}
+
+export interface SketchKeyEvent extends SketchInputModifiers {
+  key: string;
+  code: string;
+  repeat: boolean;
+}
+
+// --- Parameter Schema ---
+// Sketches declare their knobs here and the host renders + syncs the controls.
+
+// One entry of a keyframes param, field key -> value
+export type ParamKeyframe = Record<string, number>;
+
+export type ParamValue = number | string | boolean | number[] | ParamKeyframe[] | null;
+export type ParamValues = Record<string, ParamValue>;
+
+// Host settings available to schema callbacks
+export interface ParamHost {
+  duration: number; // Loop length in seconds
+}
+
+interface BaseParamDef<T extends ParamValue> {
+  key: string;
+  label: string;
+  default: T;
+  // Controls sharing a group are rendered together under its heading
+  group?: string;
+  // Extra line(s) rendered under the control (e.g. derived timings)
+  hint?: (values: ParamValues, host: ParamHost) => string | string[];
+  disabled?: (values: ParamValues) => boolean;
+}
+
+export interface NumberParamDef extends BaseParamDef<number> {
+  type: 'number';
+  min: number;
+  max: number;
+  step: number;
+  format?: (value: number) => string;
+}
+
+export interface EnumParamDef extends BaseParamDef<string> {
+  type: 'enum';
+  options: { value: string; label: string }[];
+  display?: 'select' | 'buttons';
+}
+
+export interface BooleanParamDef extends BaseParamDef<boolean> {
+  type: 'boolean';
+}
+
+export interface ColorParamDef extends BaseParamDef<string> {
+  type: 'color';
+}
+
+// Sorted list of cut points inside [min, max] (e.g. luminance ranges)
+export interface ThresholdsParamDef extends BaseParamDef<number[]> {
+  type: 'thresholds';
+  min: number;
+  max: number;
+  step?: number;
+}
+
+// Value is an object URL for the picked file, or null for the sketch default
+export interface FileParamDef extends BaseParamDef<string | null> {
+  type: 'file';
+  accept: string;
+}
+
+// Ordered, editable list of keyframes (e.g. a phase sequence, or any list of
+// records like pendulums). Every keyframe has a value for each field,
+// clamped to that field's range.
+export interface KeyframeField {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  unit?: { scale: number; label: string }; // Edited in other units, e.g. multiples of π
+  default?: number; // Fills in keyframes saved before the field existed
+}
+
+export interface KeyframesParamDef extends BaseParamDef<ParamKeyframe[]> {
+  type: 'keyframes';
+  fields: KeyframeField[];
+  minLength: number;
+  maxLength: number;
+  itemLabel?: string; // What one entry is called in the editor, default 'keyframe'
+}
+
+export type ParamDef =
+  | NumberParamDef
+  | EnumParamDef
+  | BooleanParamDef
+  | ColorParamDef
+  | ThresholdsParamDef
+  | FileParamDef
+  | KeyframesParamDef;
+
+export type ParamSchema = ParamDef[];
+
+// Named starting point shipped with a sketch
+export interface SketchPreset {
+  name: string;
+  params: ParamValues; // Overrides of the schema defaults
+  theme?: { foreground: string; background: string };
+}
+
 export interface Sketch {
+  // Knobs exposed to the host UI
+  readonly params?: ParamSchema;
+
+  // Built-in presets listed next to the user's own
+  readonly presets?: SketchPreset[];
+
+  // Whether the sketch draws with the host palette (theme colors)
+  readonly usesTheme?: boolean;
+
+  // '2d' (default) or 'webgl2' to also receive ctx.gl
+  readonly contextType?: '2d' | 'webgl2';
+
+  // Needs the document (e.g. media elements), so it can't run in the
+  // OffscreenCanvas worker and always renders on the main thread
+  readonly requiresDom?: boolean;
+
   // Called once when sketch starts
   setup(ctx: SketchContext): void;
 
+  // Offline mode and transport seeks: awaited before the draw so external
+  // sources (e.g. a video element) can be synced to ctx.time
+  prepareFrame?(ctx: SketchContext): Promise<void>;
+
   // Called every frame
   draw(ctx: SketchContext): void;
 
-  // Called when dimensions change
+  // Transport seeks (see lib/sketch-runner.ts) restore a snapshot and replay
+  // frames from there. A snapshot copies whatever draw() evolves from frame
+  // to frame, not params; the runner saves ctx.random's stream alongside.
+  // Without these, seeking only moves ctx.time.
+  snapshot?(): unknown;
+  restore?(state: unknown): void;
+
+  // Realtime transport changed (pause, resume, speed, after a seek), for
+  // sketches that also follow their own clock (e.g. a playing video)
+  onPlayback?(playing: boolean, speed: number): void;
+
+  // Vector version of the last drawn frame (see lib/vector.ts), enables
+  // SVG / PDF export
+  getScene?(): VectorScene | null;
+
+  // Pen-plotter output (see lib/plotter.ts): what can be plotted, and the
+  // polylines for one of those sources in any units (fitted to the paper later)
+  readonly plotSources?: { value: string; label: string }[];
+  getPlotPaths?(source: string): PlotPath[];
+
+  // Called by the host for every declared param, on start and on change
+  setParam?(key: string, value: ParamValue): void;
+
+  // Set by the host: lets input hooks change a declared param. The change
+  // goes through the host like a UI edit (and back via setParam), so it ends
+  // up in exports, permalinks and presets.
+  emitParam?: (key: string, value: ParamValue) => void;
+
+  // Input hooks. Wheel and key handlers return true to consume the event
+  // (prevents page scrolling / browser shortcuts).
+  onPointerDown?(e: SketchPointerEvent): void;
+  onPointerMove?(e: SketchPointerEvent): void;
+  onPointerUp?(e: SketchPointerEvent): void;
+  onWheel?(e: SketchWheelEvent): boolean | void;
+  onKeyDown?(e: SketchKeyEvent): boolean | void;
+  onKeyUp?(e: SketchKeyEvent): boolean | void;
+
+  // Called when the canvas is resized mid-run (aspect / size presets); the
+  // run isn't restarted, later frames get the new ctx.width / height
   resize?(width: number, height: number): void;
 
   // Cleanup
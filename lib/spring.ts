@@ -0,0 +1,148 @@
+// Springs and easing curves for animating values towards a target.
+// Everything runs in seconds: a spring covers the same ground in one second
+// whether that second is split into 60, 120 or 30 frames (or an export's).
+
+export interface SpringState {
+  value: number;
+  velocity: number; // Units per second
+}
+
+// Stiffness (1/s²) and damping (1/s) for the current distance to the target
+export interface SpringForces {
+  stiffness: number;
+  damping: number;
+}
+
+export type SpringProfile = (distance: number, mass: number) => SpringForces;
+
+export interface SpringOptions {
+  profile: SpringProfile;
+  mass: number;
+  // Snaps onto the target once both are below these, so settled springs
+  // compare equal to their target
+  restDistance: number;
+  restSpeed: number; // Units per second
+}
+
+// Longest integration step, longer frames are split into equal substeps
+const MAX_STEP = 1 / 240;
+
+// Some knobs were tuned as per-frame values at 60fps, this is that rate
+export const FRAME_UNITS_FPS = 60;
+
+// Per-frame stiffness / damping (at FRAME_UNITS_FPS) to per-second
+export const fromFrameUnits = ({ stiffness, damping }: SpringForces): SpringForces => ({
+  stiffness: stiffness * FRAME_UNITS_FPS * FRAME_UNITS_FPS,
+  damping: damping * FRAME_UNITS_FPS,
+});
+
+// Damping that settles fastest without overshooting
+export const criticalDamping = (stiffness: number, mass: number) => 2 * Math.sqrt(stiffness * mass);
+
+// Classic: a linear spring, damped as given or critically (no bounce)
+export const classicProfile = (stiffness: number, damping: number | 'critical'): SpringProfile =>
+  (_, mass) => ({ stiffness, damping: damping === 'critical' ? criticalDamping(stiffness, mass) : damping });
+
+// Harmonic: very stiff when far (explosive start), nearly slack close to the
+// target (extreme crawl at the end), overdamped so it never overshoots.
+// The original per-frame tuning, converted to seconds. A move of 1 covers
+// ~66% in 1s and ~91% in 30s without settling, so harmonic transitions
+// usually end on the Lissajous sketch's 30s timeout.
+const HARMONIC = {
+  maxStiffness: fromFrameUnits({ stiffness: 1.0, damping: 0 }).stiffness, // At distance >= 1
+  minStiffness: fromFrameUnits({ stiffness: 0.00001, damping: 0 }).stiffness, // At the target
+  tensionPower: 6.0, // Higher = stiffness drops earlier, longer slow tail
+  dampingRatio: 4.0, // Higher = more 'syrupy' resistance
+};
+
+export const harmonicProfile: SpringProfile = (distance, mass) => {
+  const { maxStiffness, minStiffness, tensionPower, dampingRatio } = HARMONIC;
+  const stiffness = minStiffness + (maxStiffness - minStiffness) * Math.pow(Math.min(distance, 1), tensionPower);
+  return { stiffness, damping: criticalDamping(stiffness, mass) * dampingRatio };
+};
+
+// Advance a spring by deltaTime seconds. Semi-implicit Euler on fixed-size
+// substeps; damping is applied implicitly so stiff, heavily damped profiles
+// stay stable at any step.
+export function stepSpring(state: SpringState, target: number, deltaTime: number, options: SpringOptions): SpringState {
+  const { profile, mass, restDistance, restSpeed } = options;
+  let { value, velocity } = state;
+  if (value === target && velocity === 0) return state;
+
+  const steps = Math.max(1, Math.ceil(deltaTime / MAX_STEP));
+  const h = deltaTime / steps;
+
+  for (let i = 0; i < steps; i++) {
+    const displacement = target - value;
+    if (Math.abs(displacement) < restDistance && Math.abs(velocity) < restSpeed) {
+      return { value: target, velocity: 0 };
+    }
+    const { stiffness, damping } = profile(Math.abs(displacement), mass);
+    velocity = (velocity + (displacement * stiffness / mass) * h) / (1 + (damping / mass) * h);
+    value += velocity * h;
+  }
+
+  if (Math.abs(target - value) < restDistance && Math.abs(velocity) < restSpeed) {
+    return { value: target, velocity: 0 };
+  }
+  return { value, velocity };
+}
+
+// --- Easing ---
+// Progress in [0, 1] -> eased progress, 0 -> 0 and 1 -> 1. Used for
+// transitions that take a fixed time instead of settling physically.
+
+export type Easing = (progress: number) => number;
+
+// CSS cubic-bezier(x1, y1, x2, y2)
+export function cubicBezier(x1: number, y1: number, x2: number, y2: number): Easing {
+  const bezier = (s: number, p1: number, p2: number) =>
+    3 * (1 - s) * (1 - s) * s * p1 + 3 * (1 - s) * s * s * p2 + s * s * s;
+  const slope = (s: number, p1: number, p2: number) =>
+    3 * (1 - s) * (1 - s) * p1 + 6 * (1 - s) * s * (p2 - p1) + 3 * s * s * (1 - p2);
+
+  return (progress) => {
+    if (progress <= 0) return 0;
+    if (progress >= 1) return 1;
+
+    // Solve x(s) = progress: Newton first, bisection if the slope is flat
+    let s = progress;
+    for (let i = 0; i < 8; i++) {
+      const error = bezier(s, x1, x2) - progress;
+      if (Math.abs(error) < 1e-6) return bezier(s, y1, y2);
+      const d = slope(s, x1, x2);
+      if (Math.abs(d) < 1e-6) break;
+      s -= error / d;
+    }
+    let lo = 0;
+    let hi = 1;
+    s = progress;
+    for (let i = 0; i < 30; i++) {
+      if (bezier(s, x1, x2) < progress) lo = s;
+      else hi = s;
+      s = (lo + hi) / 2;
+    }
+    return bezier(s, y1, y2);
+  };
+}
+
+// A spring given by its duration instead of its forces: bounce 0 settles
+// without overshoot, towards 1 it oscillates longer. The small residual at
+// the end is blended out so the curve lands exactly on 1.
+export function springEasing(bounce: number): Easing {
+  const omega = 2 * Math.PI; // One natural period per duration
+  const zeta = 1 - Math.min(Math.max(bounce, 0), 0.95);
+
+  const response = (t: number) => {
+    if (zeta >= 1) return 1 - (1 + omega * t) * Math.exp(-omega * t);
+    const damped = omega * Math.sqrt(1 - zeta * zeta);
+    return 1 - Math.exp(-zeta * omega * t) * (Math.cos(damped * t) + (zeta * omega / damped) * Math.sin(damped * t));
+  };
+  const residual = 1 - response(1);
+
+  return (progress) => {
+    if (progress <= 0) return 0;
+    if (progress >= 1) return 1;
+    return response(progress) + residual * progress;
+  };
+}
@@ -4,140 +4,557 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
 import { FFmpeg } from '@ffmpeg/ffmpeg';
 import { fetchFile, toBlobURL } from '@ffmpeg/util';
+import JSZip from 'jszip';
+import type { CanvasSketchHandle } from '@/components/canvas-sketch';
+import { EXPORT_FORMATS, EncodeSettings, ExportFormat, ExportFormatSpec, getOutputSize } from '@/lib/export-formats';
+import { WebCodecsEncoder, supportsWebCodecs } from '@/lib/webcodecs-encoder';
+import { download } from '@/lib/utils';
 
-export function useCanvasRecorder(canvasRef: React.RefObject<HTMLCanvasElement | null>) {
-  const [isRecording, setIsRecording] = useState(false);
+export interface RecordingOptions {
+  format?: ExportFormat;
+  filename?: string; // Without extension, the format decides it
+  duration?: number; // seconds
+  fps?: number;
+  // Render resolution of the sketch canvas
+  width?: number;
+  height?: number;
+  // Output size multiplier applied to width/height at encode time
+  scale?: number;
+  // Format specific quality knob (see EXPORT_FORMATS), used when no byte budget is given
+  quality?: number;
+  // Byte budget: search bitrates until the file lands at or just under it.
+  // Only for formats that can target a bitrate (MP4, WebM).
+  maxBytes?: number;
+  // Written as a JSON sidecar next to frame sequences (e.g. sketch params)
+  metadata?: Record<string, unknown>;
+  // Soundtrack (original file bytes), muxed into formats that carry audio
+  audio?: { data: Uint8Array; extension: string };
+}
+
+export type EncoderStatus =
+  | { state: 'loading' }
+  | { state: 'ready' }
+  | { state: 'error'; message: string };
+
+// ffmpeg-core.js / .wasm served from public/
+const CORE_BASE_URL = '/ffmpeg';
+
+export interface EncodeAttempt {
+  bitrate: number;
+  size: number; // bytes
+}
+
+// What produced the file: WebCodecs fast path, ffmpeg.wasm, or the PNG zipper
+export type RecordingBackend = 'webcodecs' | 'ffmpeg' | 'zip';
+
+export interface RecordingResult {
+  data: Uint8Array;
+  size: number; // bytes
+  attempts: EncodeAttempt[];
+  backend: RecordingBackend;
+}
+
+export type RecorderErrorReason =
+  | 'encoder-unavailable'
+  | 'no-sketch'
+  | 'capture-failed'
+  | 'encode-failed'
+  | 'budget-unreachable'
+  | 'aborted';
+
+export class RecorderError extends Error {
+  constructor(public readonly reason: RecorderErrorReason, message: string) {
+    super(message);
+    this.name = 'RecorderError';
+  }
+}
+
+// Where an export currently is. Progress values are 0..1.
+export type RecorderState =
+  | { phase: 'idle' }
+  | { phase: 'loading' } // Waiting for the video encoder
+  | { phase: 'capturing'; frame: number; totalFrames: number }
+  | { phase: 'writing'; file: number; totalFiles: number } // Frames into the ffmpeg FS
+  | { phase: 'encoding'; progress: number; attempt?: number; pass?: number }
+  | { phase: 'finalizing' }
+  | { phase: 'done'; result: RecordingResult }
+  | { phase: 'failed'; error: RecorderError };
+
+// Share of the overall bar reserved for each phase
+const PHASE_RANGES = {
+  capturing: [0, 0.5],
+  writing: [0.5, 0.6],
+  encoding: [0.6, 0.98],
+} as const;
+
+const lerp = ([from, to]: readonly [number, number], t: number) => from + (to - from) * t;
+
+// Overall progress and a short status line for the UI
+export function describeRecorderState(state: RecorderState): { progress: number; label: string } {
+  switch (state.phase) {
+    case 'idle':
+      return { progress: 0, label: 'idle' };
+    case 'loading':
+      return { progress: 0, label: 'loading encoder' };
+    case 'capturing':
+      return {
+        progress: lerp(PHASE_RANGES.capturing, state.frame / state.totalFrames),
+        label: `capturing ${state.frame}/${state.totalFrames}`,
+      };
+    case 'writing':
+      return {
+        progress: lerp(PHASE_RANGES.writing, state.file / state.totalFiles),
+        label: `writing ${state.file}/${state.totalFiles}`,
+      };
+    case 'encoding': {
+      const stage = [
+        state.attempt && `try ${state.attempt}`,
+        state.pass && `pass ${state.pass}/2`,
+      ].filter(Boolean).join(' ');
+      return {
+        progress: lerp(PHASE_RANGES.encoding, state.progress),
+        label: `encoding ${Math.round(state.progress * 100)}%${stage ? ` (${stage})` : ''}`,
+      };
+    }
+    case 'finalizing':
+      return { progress: PHASE_RANGES.encoding[1], label: 'finalizing' };
+    case 'done':
+      return { progress: 1, label: 'done' };
+    case 'failed':
+      return { progress: 0, label: state.error.reason === 'aborted' ? 'cancelled' : 'failed' };
+  }
+}
+
+// Reported by the encode helpers so progress can say which run it belongs to
+interface EncodeStage {
+  attempt?: number;
+  pass?: number;
+}
+
+export function useCanvasRecorder(sketchRef: React.RefObject<CanvasSketchHandle | null>) {
+  const [state, setState] = useState<RecorderState>({ phase: 'idle' });
   const framesRef = useRef<Blob[]>([]);
   const ffmpegRef = useRef<FFmpeg | null>(null);
-  const [loaded, setLoaded] = useState(false);
-
-  // Load FFmpeg
-  useEffect(() => {
-    load();
-  }, []);
+  const loadRef = useRef<Promise<void> | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [encoder, setEncoder] = useState<EncoderStatus>({ state: 'loading' });
+  const [lastResult, setLastResult] = useState<RecordingResult | null>(null);
+  const isRecording = state.phase !== 'idle' && state.phase !== 'done' && state.phase !== 'failed';
 
-  const load = async () => {
+  const load = useCallback(async () => {
+    // A failed load can leave the worker in a bad state, start from scratch
+    if (ffmpegRef.current && !ffmpegRef.current.loaded) {
+      ffmpegRef.current.terminate();
+      ffmpegRef.current = null;
+    }
     if (!ffmpegRef.current) {
       ffmpegRef.current = new FFmpeg();
     }
     const ffmpeg = ffmpegRef.current;
     if (ffmpeg.loaded) return;
 
-    // Using unpkg urls
-    const baseURL = 'https://unpkg.com/@ffmpeg/core@0.12.6/dist/umd';
     try {
+      // Same-origin assets (see scripts/copy-ffmpeg-core.mjs), blob URLs keep
+      // the worker happy under COOP/COEP
       await ffmpeg.load({
-        coreURL: await toBlobURL(`${baseURL}/ffmpeg-core.js`, 'text/javascript'),
-        wasmURL: await toBlobURL(`${baseURL}/ffmpeg-core.wasm`, 'application/wasm'),
+        coreURL: await toBlobURL(`${CORE_BASE_URL}/ffmpeg-core.js`, 'text/javascript'),
+        wasmURL: await toBlobURL(`${CORE_BASE_URL}/ffmpeg-core.wasm`, 'application/wasm'),
       });
-      setLoaded(true);
-      console.log("FFmpeg loaded");
-    } catch (e: any) {
+      setEncoder({ state: 'ready' });
+    } catch (e) {
       console.error("FFmpeg load failed:", e);
+      setEncoder({ state: 'error', message: e instanceof Error ? e.message : String(e) });
     }
-  };
+  }, []);
 
-  const startRecording = useCallback((bitrate: number = 25000000, filename: string = 'recording.mp4') => {
-    const canvas = canvasRef.current;
-    if (!canvas || !loaded) {
-      if (!loaded) alert("Video encoder still loading, please wait...");
-      return;
-    }
+  // Keep the pending load around so an export started early can wait for it
+  const startLoad = useCallback(() => {
+    const pending = load();
+    loadRef.current = pending;
+    return pending;
+  }, [load]);
 
-    setIsRecording(true);
-    framesRef.current = [];
+  // Load FFmpeg
+  useEffect(() => {
+    startLoad();
+  }, [startLoad]);
+
+  const retryLoad = useCallback(() => {
+    setEncoder({ state: 'loading' });
+    startLoad();
+  }, [startLoad]);
+
+  // The only way to stop a running ffmpeg.exec is to kill the worker, which
+  // also drops its virtual FS. Bring a fresh instance up for the next export.
+  const resetEncoder = useCallback(() => {
+    ffmpegRef.current?.terminate();
+    ffmpegRef.current = null;
+    setEncoder({ state: 'loading' });
+    startLoad();
+  }, [startLoad]);
 
-    const totalDuration = 10000; // 10s
-    const fps = 60;
-    const interval = 1000 / fps;
-    const startTime = performance.now();
-    let frameCount = 0;
+  const encodeVideo = useCallback(async (
+    ffmpeg: FFmpeg,
+    spec: ExportFormatSpec,
+    quality: number,
+    maxBytes: number | undefined,
+    duration: number,
+    encode: EncodeSettings,
+    audio: RecordingOptions['audio'],
+    signal: AbortSignal
+  ): Promise<RecordingResult> => {
+    const frames = framesRef.current;
+    const audioFile = audio && spec.audio ? `audio.${audio.extension}` : undefined;
+    let written = 0;
+    let encoding = false;
+    let stage: EncodeStage = {};
 
-    console.log("Starting Capture for MP4 generation...");
+    const onProgress = ({ progress }: { progress: number }) => {
+      // ffmpeg reports garbage (negative / > 1) around the edges of a run
+      const clamped = Math.min(1, Math.max(0, progress || 0));
+      setState({ phase: 'encoding', progress: clamped, ...stage });
+    };
+    const onStage = (next: EncodeStage) => {
+      stage = next;
+      setState({ phase: 'encoding', progress: 0, ...stage });
+    };
 
-    const captureFrame = (time: number) => {
-      const elapsed = time - startTime;
+    try {
+      // Write frames to FS
+      // We expect filenames like frame0001.png
+      for (let i = 0; i < frames.length; i++) {
+        throwIfAborted(signal);
+        setState({ phase: 'writing', file: i + 1, totalFiles: frames.length });
+        await ffmpeg.writeFile(frameName(i), await fetchFile(frames[i]));
+        written = i + 1;
+      }
+      // Captured frames live in the FS now
+      framesRef.current = [];
 
-      if (elapsed >= totalDuration) {
-        // Stop & Encode
-        encodeVideo(bitrate);
-        return;
+      if (audio && audioFile) {
+        await ffmpeg.writeFile(audioFile, audio.data);
+        encode = { ...encode, audioFile };
       }
 
-      // Check if it's time for a new frame (frame 0, 1, 2...)
-      // expected time for frame N is N * interval
-      // if elapsed >= frameCount * interval, take a snapshot
-      if (elapsed >= frameCount * interval) {
-        canvas.toBlob((blob) => {
-          if (blob) {
-            framesRef.current.push(blob);
-          }
-        }, 'image/png'); // Lossless capture for encoding
-        frameCount++;
+      encoding = true;
+      ffmpeg.on('progress', onProgress);
+      setState({ phase: 'encoding', progress: 0 });
+
+      if (maxBytes && spec.bitrateArgs) {
+        return await encodeToBudget(ffmpeg, spec, maxBytes, duration, encode, signal, onStage);
+      }
+      const data = await encodeFrames(ffmpeg, spec, spec.encodeArgs!(quality, encode), encode, signal);
+      return { data, size: data.byteLength, attempts: [], backend: 'ffmpeg' };
+    } finally {
+      ffmpeg.off('progress', onProgress);
+      if (signal.aborted && encoding) {
+        resetEncoder();
+      } else {
+        // Cleanup files
+        for (let i = 0; i < written; i++) {
+          await ffmpeg.deleteFile(frameName(i)).catch(() => { });
+        }
+        if (audioFile) await ffmpeg.deleteFile(audioFile).catch(() => { });
       }
+    }
+  }, [resetEncoder]);
 
-      requestAnimationFrame(captureFrame);
-    };
+  const startRecording = useCallback(async (options: RecordingOptions = {}): Promise<RecordingResult | null> => {
+    const {
+      format = 'mp4',
+      maxBytes,
+      filename = 'recording',
+      duration = 10,
+      fps = 60,
+      width = 1080,
+      height = 1350,
+      scale = 1,
+    } = options;
+    const spec = EXPORT_FORMATS[format];
+    const quality = options.quality ?? spec.quality.default;
 
-    const encodeVideo = async (targetBitrate: number) => {
-      setIsRecording(true); // Keep UI blocked
-      console.log(`Encoding ${framesRef.current.length} frames...`);
-      const ffmpeg = ffmpegRef.current;
-      if (!ffmpeg) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
+    let capturing = false;
+    let webCodecs: WebCodecsEncoder | null = null;
 
-      // Write frames to FS
-      // We expect filenames like frame001.png
-      for (let i = 0; i < framesRef.current.length; i++) {
-        const fileData = await fetchFile(framesRef.current[i]);
-        await ffmpeg.writeFile(`frame${i.toString().padStart(4, '0')}.png`, fileData);
+    try {
+      const totalFrames = Math.round(duration * fps);
+      const deltaTime = 1 / fps;
+      const encode: EncodeSettings = { fps, ...getOutputSize(width, height, scale) };
+
+      // WebCodecs encodes straight from the canvas while capturing. Budget
+      // exports need the frames for every search attempt and soundtracks need
+      // ffmpeg to mux, so those stay on ffmpeg.
+      const withAudio = !!options.audio && !!spec.audio;
+      if (!maxBytes && !withAudio && spec.webCodecs && await supportsWebCodecs(spec, quality, encode)) {
+        webCodecs = new WebCodecsEncoder(spec.webCodecs, quality, encode);
       }
 
-      console.log("Running ffmpeg...");
-      // Bitrate (default 25M)
-      // ffmpeg -framerate 60 -pattern_type glob -i '*.png' -c:v libx264 -pix_fmt yuv420p -b:v 25M out.mp4
-      // glob not supported in wasm usually, use sequence
-      await ffmpeg.exec([
-        '-framerate', '60',
-        '-i', 'frame%04d.png',
-        '-c:v', 'libx264',
-        '-pix_fmt', 'yuv420p',
-        '-b:v', `${targetBitrate}`,
-        '-preset', 'ultrafast', // Speed up encoding
-        'output.mp4'
-      ]);
-
-      console.log("Encoding done. Reading output...");
-      const data = await ffmpeg.readFile('output.mp4');
-
-      // Cleanup files
-      for (let i = 0; i < framesRef.current.length; i++) {
-        await ffmpeg.deleteFile(`frame${i.toString().padStart(4, '0')}.png`);
+      // Frame sequences are zipped in JS and don't need the encoder
+      let ffmpeg: FFmpeg | null = null;
+      if (spec.kind === 'video' && !webCodecs) {
+        setState({ phase: 'loading' });
+        await Promise.race([loadRef.current, untilAborted(signal)]);
+        throwIfAborted(signal);
+        ffmpeg = ffmpegRef.current;
+        if (!ffmpeg?.loaded) {
+          throw new RecorderError('encoder-unavailable', "Video encoder failed to load");
+        }
       }
-      await ffmpeg.deleteFile('output.mp4');
 
-      const blob = new Blob([(data as Uint8Array).buffer as ArrayBuffer], { type: 'video/mp4' });
-      const url = URL.createObjectURL(blob);
+      capturing = true;
+      framesRef.current = [];
+      setState({ phase: 'capturing', frame: 0, totalFrames });
+
+      // The host remounts the sketch in offline mode when recording starts,
+      // wait for the handle of that run before stepping it
+      const sketch = await untilOffline(sketchRef, signal);
+
+      // Offline capture: step frame N -> N + 1 with a fixed deltaTime and grab
+      // each frame before advancing, so output never depends on machine speed
+      for (let i = 0; i < totalFrames; i++) {
+        throwIfAborted(signal);
+        await sketch.step(deltaTime);
+        if (webCodecs) {
+          await webCodecs.addFrame(sketch.canvas!, signal);
+        } else {
+          framesRef.current.push(await sketch.capture('image/png')); // Lossless capture for encoding
+        }
+        setState({ phase: 'capturing', frame: i + 1, totalFrames });
+      }
+      capturing = false;
 
-      const a = document.createElement('a');
-      a.style.display = 'none';
-      a.href = url;
-      a.download = filename;
-      document.body.appendChild(a);
-      a.click();
+      let result: RecordingResult;
+      if (spec.kind === 'frames') {
+        setState({ phase: 'encoding', progress: 0 });
+        const data = await zipFrames(framesRef.current, filename, quality, encode, options.metadata, signal,
+          (progress) => setState({ phase: 'encoding', progress }));
+        result = { data, size: data.byteLength, attempts: [], backend: 'zip' };
+      } else if (webCodecs) {
+        // Most of the work already happened during capture, this drains the queue
+        setState({ phase: 'encoding', progress: 0 });
+        const data = await Promise.race([webCodecs.finalize(), untilAborted(signal)]);
+        result = { data, size: data.byteLength, attempts: [], backend: 'webcodecs' };
+      } else {
+        result = await encodeVideo(ffmpeg!, spec, quality, maxBytes, duration, encode, options.audio, signal);
+      }
+      throwIfAborted(signal);
 
-      setTimeout(() => {
-        document.body.removeChild(a);
-        window.URL.revokeObjectURL(url);
-      }, 100);
+      setState({ phase: 'finalizing' });
+      const blob = new Blob([result.data.buffer as ArrayBuffer], { type: spec.mimeType });
+      download(blob, `${filename}.${spec.extension}`);
 
-      setIsRecording(false);
+      setLastResult(result);
+      setState({ phase: 'done', result });
+      return result;
+    } catch (e) {
+      const error = signal.aborted
+        ? new RecorderError('aborted', "Export cancelled")
+        : toRecorderError(e, capturing ? 'capture-failed' : 'encode-failed');
+      if (error.reason !== 'aborted') console.error("Export failed:", e);
+      setState({ phase: 'failed', error });
+      return null;
+    } finally {
+      webCodecs?.close();
       framesRef.current = [];
-      console.log("Done.");
-    };
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  }, [sketchRef, encodeVideo]);
+
+  // Stops capture or encoding; startRecording settles into { phase: 'failed', reason: 'aborted' }
+  const abort = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  return { state, isRecording, startRecording, abort, lastResult, encoder, retryLoad };
+}
+
+function throwIfAborted(signal: AbortSignal) {
+  if (signal.aborted) throw new RecorderError('aborted', "Export cancelled");
+}
+
+// Never resolves, rejects once the signal fires
+function untilAborted(signal: AbortSignal) {
+  return new Promise<never>((_, reject) => {
+    signal.addEventListener('abort', () => reject(new RecorderError('aborted', "Export cancelled")), { once: true });
+  });
+}
+
+// Frames to wait for the host to mount the sketch in offline mode
+const OFFLINE_MOUNT_FRAMES = 300;
+
+async function untilOffline(sketchRef: React.RefObject<CanvasSketchHandle | null>, signal: AbortSignal) {
+  for (let i = 0; i < OFFLINE_MOUNT_FRAMES; i++) {
+    await new Promise(requestAnimationFrame);
+    throwIfAborted(signal);
+    const sketch = sketchRef.current;
+    if (sketch?.offline) return sketch;
+  }
+  throw new RecorderError('no-sketch', "No sketch mounted to record");
+}
+
+function toRecorderError(e: unknown, reason: RecorderErrorReason): RecorderError {
+  if (e instanceof RecorderError) return e;
+  return new RecorderError(reason, e instanceof Error ? e.message : String(e));
+}
+
+const frameName = (i: number) => `frame${i.toString().padStart(4, '0')}.png`;
+
+const inputArgs = ({ fps, audioFile }: EncodeSettings) => [
+  // ffmpeg -framerate 60 -pattern_type glob -i '*.png' ...
+  // glob not supported in wasm usually, use sequence
+  '-framerate', `${fps}`,
+  '-i', 'frame%04d.png',
+  // Loop the soundtrack forever, -shortest cuts it at the end of the video
+  ...(audioFile ? ['-stream_loop', '-1', '-i', audioFile] : []),
+];
 
-    requestAnimationFrame(captureFrame);
+const audioArgs = (spec: ExportFormatSpec, { audioFile }: EncodeSettings) =>
+  audioFile && spec.audio ? ['-map', '0:v', '-map', '1:a', ...spec.audio.args, '-shortest'] : [];
+
+async function run(ffmpeg: FFmpeg, args: string[], signal: AbortSignal) {
+  const code = await ffmpeg.exec(args, undefined, { signal });
+  if (code !== 0) throw new RecorderError('encode-failed', `ffmpeg exited with code ${code}`);
+}
+
+// Encode the frames currently in the FS with the given output args
+async function encodeFrames(ffmpeg: FFmpeg, spec: ExportFormatSpec, outputArgs: string[], settings: EncodeSettings, signal: AbortSignal): Promise<Uint8Array> {
+  const output = `output.${spec.extension}`;
+  await run(ffmpeg, [...inputArgs(settings), ...outputArgs, ...audioArgs(spec, settings), output], signal);
+
+  const data = await ffmpeg.readFile(output);
+  await ffmpeg.deleteFile(output);
+  return data as Uint8Array;
+}
+
+// Two-pass keeps the output size close to bitrate * duration, which the
+// budget search relies on
+async function encodeTwoPass(
+  ffmpeg: FFmpeg,
+  spec: ExportFormatSpec,
+  bitrate: number,
+  settings: EncodeSettings,
+  signal: AbortSignal,
+  onPass: (pass: number) => void
+): Promise<Uint8Array> {
+  const outputArgs = spec.bitrateArgs!(bitrate, settings);
+  try {
+    onPass(1);
+    // The first pass only analyses video
+    const videoOnly = { ...settings, audioFile: undefined };
+    await run(ffmpeg, [...inputArgs(videoOnly), ...outputArgs, '-pass', '1', '-an', '-f', 'null', '/dev/null'], signal);
+    onPass(2);
+    return await encodeFrames(ffmpeg, spec, [...outputArgs, '-pass', '2'], settings, signal);
+  } finally {
+    // An aborted worker is still busy and gets terminated, don't queue behind it
+    if (!signal.aborted) {
+      for (const log of ['ffmpeg2pass-0.log', 'ffmpeg2pass-0.log.mbtree']) {
+        await ffmpeg.deleteFile(log).catch(() => { });
+      }
+    }
+  }
+}
+
+const BUDGET_MAX_ATTEMPTS = 6;
+// Good enough once the file uses at least this share of the budget
+const BUDGET_MIN_FILL = 0.92;
+// Container overhead reserved out of the budget on the first guess
+const CONTAINER_OVERHEAD = 0.04;
+
+// Iterative bitrate search: encode, measure, rescale the bitrate by how far
+// off the size was, and keep the largest output that still fits the budget.
+async function encodeToBudget(
+  ffmpeg: FFmpeg,
+  spec: ExportFormatSpec,
+  maxBytes: number,
+  duration: number,
+  settings: EncodeSettings,
+  signal: AbortSignal,
+  onStage: (stage: EncodeStage) => void
+): Promise<RecordingResult> {
+  const attempts: EncodeAttempt[] = [];
+  let best: Uint8Array | null = null;
+  // The soundtrack has a fixed bitrate, only the video share is searched
+  const audioBytes = settings.audioFile && spec.audio ? (spec.audio.bitrate * duration) / 8 : 0;
+  const videoBudget = maxBytes - audioBytes;
+  if (videoBudget <= 0) {
+    throw new RecorderError('budget-unreachable', `The soundtrack alone needs ${Math.ceil(audioBytes)} bytes`);
+  }
+  let bitrate = Math.floor((videoBudget * 8 * (1 - CONTAINER_OVERHEAD)) / duration);
+
+  for (let i = 0; i < BUDGET_MAX_ATTEMPTS; i++) {
+    throwIfAborted(signal);
+    const data = await encodeTwoPass(ffmpeg, spec, bitrate, settings, signal, (pass) => onStage({ attempt: i + 1, pass }));
+    const size = data.byteLength;
+    attempts.push({ bitrate, size });
+
+    if (size <= maxBytes) {
+      if (!best || size > best.byteLength) best = data;
+      if (size >= maxBytes * BUDGET_MIN_FILL) break;
+    }
+
+    // Aim slightly under the budget so the next try doesn't overshoot again
+    const scale = (videoBudget / Math.max(1, size - audioBytes)) * (size > maxBytes ? 0.97 : 0.99);
+    const next = Math.floor(bitrate * scale);
+    if (next === bitrate) break;
+    bitrate = next;
+  }
+
+  if (!best) {
+    throw new RecorderError('budget-unreachable', `Could not fit ${duration}s of video into ${maxBytes} bytes after ${attempts.length} attempts`);
+  }
+
+  return { data: best, size: best.byteLength, attempts, backend: 'ffmpeg' };
+}
+
+// Zero-padded PNG sequence plus a JSON sidecar. Frames are resized only when
+// the output size differs from the captured canvas.
+async function zipFrames(
+  frames: Blob[],
+  basename: string,
+  level: number,
+  { width, height, fps }: EncodeSettings,
+  metadata: Record<string, unknown> | undefined,
+  signal: AbortSignal,
+  onProgress: (progress: number) => void
+): Promise<Uint8Array> {
+  const zip = new JSZip();
+  const digits = Math.max(4, String(frames.length - 1).length);
+  const resizer = document.createElement('canvas');
+  resizer.width = width;
+  resizer.height = height;
+  const resizeCtx = resizer.getContext('2d');
+
+  // First half of the progress is resizing/adding, second half is compressing
+  for (let i = 0; i < frames.length; i++) {
+    throwIfAborted(signal);
+    let frame = frames[i];
+    const bitmap = await createImageBitmap(frame);
+    if (resizeCtx && (bitmap.width !== width || bitmap.height !== height)) {
+      resizeCtx.imageSmoothingQuality = 'high';
+      resizeCtx.drawImage(bitmap, 0, 0, width, height);
+      frame = await new Promise<Blob>((resolve, reject) => {
+        resizer.toBlob((blob) => blob ? resolve(blob) : reject(new Error('Frame resize failed')), 'image/png');
+      });
+    }
+    bitmap.close();
+    zip.file(`${basename}_${i.toString().padStart(digits, '0')}.png`, frame);
+    onProgress((i + 1) / frames.length / 2);
+  }
 
-  }, [canvasRef, loaded]);
+  zip.file(`${basename}.json`, JSON.stringify({
+    frames: frames.length,
+    fps,
+    width,
+    height,
+    ...metadata,
+  }, null, 2));
 
-  return { isRecording, startRecording };
+  return zip.generateAsync({
+    type: 'uint8array',
+    compression: level > 0 ? 'DEFLATE' : 'STORE',
+    compressionOptions: { level },
+  }, ({ percent }) => onProgress(0.5 + percent / 200));
 }
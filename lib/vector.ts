@@ -0,0 +1,238 @@
+// Resolution-independent description of a frame. Sketches that can build one
+// draw it to the canvas with drawScene and the host exports the same scene as
+// SVG or PDF, so the vector files match the preview exactly.
+
+export type VectorShape =
+  | {
+    type: 'path';
+    points: number[]; // Flat [x0, y0, x1, y1, ...]
+    closed?: boolean;
+    stroke: string;
+    lineWidth: number;
+    lineCap?: CanvasLineCap; // Default 'round'
+    lineJoin?: CanvasLineJoin; // Default 'round'
+    opacity?: number; // 0..1, default 1
+  }
+  | { type: 'rect'; x: number; y: number; width: number; height: number; fill: string }
+  | {
+    type: 'text';
+    x: number;
+    y: number;
+    text: string;
+    fill: string;
+    fontSize: number;
+    fontFamily: string;
+    align: 'left' | 'center' | 'right'; // Baseline is always the vertical middle
+  };
+
+export interface VectorScene {
+  width: number;
+  height: number;
+  background: string | null;
+  shapes: VectorShape[];
+}
+
+export function drawScene(ctx: CanvasRenderingContext2D, scene: VectorScene) {
+  if (scene.background) {
+    ctx.fillStyle = scene.background;
+    ctx.fillRect(0, 0, scene.width, scene.height);
+  }
+
+  for (const shape of scene.shapes) {
+    switch (shape.type) {
+      case 'path': {
+        const { points } = shape;
+        if (points.length < 4) break;
+        ctx.beginPath();
+        ctx.moveTo(points[0], points[1]);
+        for (let i = 2; i < points.length; i += 2) ctx.lineTo(points[i], points[i + 1]);
+        if (shape.closed) ctx.closePath();
+        ctx.strokeStyle = shape.stroke;
+        ctx.lineWidth = shape.lineWidth;
+        ctx.lineCap = shape.lineCap ?? 'round';
+        ctx.lineJoin = shape.lineJoin ?? 'round';
+        ctx.globalAlpha = shape.opacity ?? 1;
+        ctx.stroke();
+        ctx.globalAlpha = 1;
+        break;
+      }
+      case 'rect':
+        ctx.fillStyle = shape.fill;
+        ctx.fillRect(shape.x, shape.y, shape.width, shape.height);
+        break;
+      case 'text':
+        ctx.font = `${shape.fontSize}px ${shape.fontFamily}`;
+        ctx.textAlign = shape.align;
+        ctx.textBaseline = 'middle';
+        ctx.fillStyle = shape.fill;
+        ctx.fillText(shape.text, shape.x, shape.y);
+        break;
+    }
+  }
+}
+
+// --- SVG ---
+
+const num = (v: number) => Number(v.toFixed(2)).toString();
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+const SVG_ANCHOR = { left: 'start', center: 'middle', right: 'end' } as const;
+
+function pathData(points: number[], closed?: boolean) {
+  let d = `M${num(points[0])} ${num(points[1])}`;
+  for (let i = 2; i < points.length; i += 2) d += `L${num(points[i])} ${num(points[i + 1])}`;
+  return closed ? d + 'Z' : d;
+}
+
+export function sceneToSvg(scene: VectorScene): string {
+  const { width, height } = scene;
+  const lines = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+  ];
+  if (scene.background) {
+    lines.push(`<rect width="${width}" height="${height}" fill="${escapeXml(scene.background)}"/>`);
+  }
+
+  for (const shape of scene.shapes) {
+    switch (shape.type) {
+      case 'path':
+        if (shape.points.length < 4) break;
+        lines.push(
+          `<path d="${pathData(shape.points, shape.closed)}" fill="none" stroke="${escapeXml(shape.stroke)}" ` +
+          `stroke-width="${num(shape.lineWidth)}" stroke-linecap="${shape.lineCap ?? 'round'}" stroke-linejoin="${shape.lineJoin ?? 'round'}"` +
+          (shape.opacity !== undefined && shape.opacity < 1 ? ` stroke-opacity="${num(shape.opacity)}"/>` : '/>')
+        );
+        break;
+      case 'rect':
+        lines.push(`<rect x="${num(shape.x)}" y="${num(shape.y)}" width="${num(shape.width)}" height="${num(shape.height)}" fill="${escapeXml(shape.fill)}"/>`);
+        break;
+      case 'text':
+        lines.push(
+          `<text x="${num(shape.x)}" y="${num(shape.y)}" font-family="${escapeXml(shape.fontFamily)}" font-size="${num(shape.fontSize)}" ` +
+          `fill="${escapeXml(shape.fill)}" text-anchor="${SVG_ANCHOR[shape.align]}" dominant-baseline="central">${escapeXml(shape.text)}</text>`
+        );
+        break;
+    }
+  }
+
+  lines.push('</svg>');
+  return lines.join('\n');
+}
+
+// --- PDF ---
+// Single page, no dependencies. Text uses the standard Courier font (no
+// embedding needed, monospace like the on-screen labels); π comes from Symbol.
+
+const PX_TO_PT = 0.75; // CSS pixels are 1/96in, points 1/72in
+const COURIER_ADVANCE = 0.6; // em, every glyph
+const SYMBOL_PI_ADVANCE = 0.549; // em
+
+const CAPS = { butt: 0, round: 1, square: 2 } as const;
+const JOINS = { miter: 0, round: 1, bevel: 2 } as const;
+
+// '#rgb' / '#rrggbb' -> 'r g b' in 0..1, anything else falls back to black
+function pdfColor(color: string) {
+  let hex = color.trim().replace(/^#/, '');
+  if (hex.length === 3) hex = hex.split('').map(c => c + c).join('');
+  if (!/^[0-9a-f]{6}$/i.test(hex)) return '0 0 0';
+  return [0, 2, 4].map(i => num(parseInt(hex.slice(i, i + 2), 16) / 255)).join(' ');
+}
+
+const escapePdfString = (text: string) => text.replace(/[\\()]/g, c => `\\${c}`);
+
+// Courier for plain text, Symbol for π
+function textRuns(text: string) {
+  return text.split(/(π)/).filter(Boolean).map(run => run === 'π'
+    ? { font: '/F2', text: 'p', advance: SYMBOL_PI_ADVANCE }
+    // Outside Latin-1 there's no glyph in a standard font
+    : { font: '/F1', text: run.replace(/[^\x20-\x7e]/g, '?'), advance: COURIER_ADVANCE * run.length });
+}
+
+// Stroke opacities used by the scene, each one becomes an ExtGState
+function pdfOpacities(scene: VectorScene) {
+  const opacities = new Set<string>();
+  for (const shape of scene.shapes) {
+    if (shape.type === 'path' && shape.opacity !== undefined && shape.opacity < 1) opacities.add(num(shape.opacity));
+  }
+  return [...opacities];
+}
+
+function pdfContent(scene: VectorScene, opacities: string[]) {
+  const { width, height } = scene;
+  // Flip to canvas coordinates (y down, pixels)
+  const ops = [`${PX_TO_PT} 0 0 ${-PX_TO_PT} 0 ${num(height * PX_TO_PT)} cm`];
+
+  if (scene.background) {
+    ops.push(`${pdfColor(scene.background)} rg 0 0 ${width} ${height} re f`);
+  }
+
+  for (const shape of scene.shapes) {
+    switch (shape.type) {
+      case 'path': {
+        const { points } = shape;
+        if (points.length < 4) break;
+        const alpha = shape.opacity !== undefined && shape.opacity < 1 ? opacities.indexOf(num(shape.opacity)) : -1;
+        // Opacity is graphics state, scoped to this path with q / Q
+        if (alpha >= 0) ops.push(`q /GS${alpha} gs`);
+        ops.push(`${pdfColor(shape.stroke)} RG ${num(shape.lineWidth)} w ${CAPS[shape.lineCap ?? 'round']} J ${JOINS[shape.lineJoin ?? 'round']} j`);
+        const path = [`${num(points[0])} ${num(points[1])} m`];
+        for (let i = 2; i < points.length; i += 2) path.push(`${num(points[i])} ${num(points[i + 1])} l`);
+        ops.push(path.join('\n'), shape.closed ? 's' : 'S');
+        if (alpha >= 0) ops.push('Q');
+        break;
+      }
+      case 'rect':
+        ops.push(`${pdfColor(shape.fill)} rg ${num(shape.x)} ${num(shape.y)} ${num(shape.width)} ${num(shape.height)} re f`);
+        break;
+      case 'text': {
+        const runs = textRuns(shape.text);
+        const total = runs.reduce((sum, run) => sum + run.advance, 0) * shape.fontSize;
+        const x = shape.align === 'center' ? shape.x - total / 2 : shape.align === 'right' ? shape.x - total : shape.x;
+        // Vertically centered on the cap height, roughly what canvas 'middle' gives
+        const y = shape.y + shape.fontSize * 0.3;
+        // Unflip glyphs inside the flipped page
+        ops.push(`BT ${pdfColor(shape.fill)} rg 1 0 0 -1 ${num(x)} ${num(y)} Tm`);
+        for (const run of runs) ops.push(`${run.font} ${num(shape.fontSize)} Tf (${escapePdfString(run.text)}) Tj`);
+        ops.push('ET');
+        break;
+      }
+    }
+  }
+
+  return ops.join('\n');
+}
+
+export function sceneToPdf(scene: VectorScene): Uint8Array {
+  const opacities = pdfOpacities(scene);
+  const content = pdfContent(scene, opacities);
+  const states = opacities.map((opacity, i) => `/GS${i} << /CA ${opacity} >>`).join(' ');
+  const pageWidth = num(scene.width * PX_TO_PT);
+  const pageHeight = num(scene.height * PX_TO_PT);
+
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] /Contents 4 0 R ` +
+    `/Resources << /Font << /F1 5 0 R /F2 6 0 R >>${states ? ` /ExtGState << ${states} >>` : ''} >> >>`,
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Symbol >>',
+  ];
+
+  // Everything above is ASCII, so string offsets are byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(pdf.length);
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return new TextEncoder().encode(pdf);
+}
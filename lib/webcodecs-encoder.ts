@@ -0,0 +1,156 @@
+// In-process encoding: canvas -> VideoFrame -> VideoEncoder -> MP4/WebM muxer.
+// Skips the PNG round trip and the ffmpeg.wasm FS entirely.
+
+import { Muxer as Mp4Muxer, ArrayBufferTarget as Mp4Target } from 'mp4-muxer';
+import { Muxer as WebmMuxer, ArrayBufferTarget as WebmTarget } from 'webm-muxer';
+import type { EncodeSettings, ExportFormatSpec, WebCodecsSpec } from '@/lib/export-formats';
+
+// Frames waiting inside the encoder before capture pauses for it to catch up
+const MAX_QUEUE_SIZE = 8;
+// Seconds between keyframes
+const KEYFRAME_INTERVAL = 2;
+
+interface Muxer {
+  addVideoChunk(chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata): void;
+  finalize(): void;
+}
+
+const createMuxer = (spec: WebCodecsSpec, { width, height, fps }: EncodeSettings) => {
+  if (spec.container === 'mp4') {
+    const target = new Mp4Target();
+    const muxer = new Mp4Muxer({
+      target,
+      video: { codec: spec.muxerCodec as 'avc' | 'vp9', width, height, frameRate: fps },
+      fastStart: 'in-memory',
+    });
+    return { muxer: muxer as Muxer, finish: () => target.buffer };
+  }
+  const target = new WebmTarget();
+  const muxer = new WebmMuxer({
+    target,
+    video: { codec: spec.muxerCodec, width, height, frameRate: fps },
+  });
+  return { muxer: muxer as Muxer, finish: () => target.buffer };
+};
+
+const encoderConfig = (spec: WebCodecsSpec, quality: number, { width, height, fps }: EncodeSettings): VideoEncoderConfig => ({
+  codec: spec.codec,
+  width,
+  height,
+  framerate: fps,
+  latencyMode: 'quality',
+  ...spec.config(quality),
+});
+
+// Whether this browser can encode the format with WebCodecs at these settings
+export async function supportsWebCodecs(spec: ExportFormatSpec, quality: number, settings: EncodeSettings): Promise<boolean> {
+  if (!spec.webCodecs || typeof VideoEncoder === 'undefined') return false;
+  try {
+    const { supported } = await VideoEncoder.isConfigSupported(encoderConfig(spec.webCodecs, quality, settings));
+    return !!supported;
+  } catch {
+    return false;
+  }
+}
+
+export class WebCodecsEncoder {
+  private encoder: VideoEncoder;
+  private muxer: Muxer;
+  private finish: () => ArrayBuffer;
+  private error: Error | null = null;
+  // Ends a backpressure wait early, when the encoder fails or is closed
+  private interrupt: (() => void) | null = null;
+  private frameOptions: VideoEncoderEncodeOptions;
+  private frameCount = 0;
+  // Output size differs from the canvas when scaling, or when the canvas is odd sized
+  private resizer: OffscreenCanvas;
+  private resizeCtx: OffscreenCanvasRenderingContext2D | null;
+
+  constructor(spec: WebCodecsSpec, quality: number, private settings: EncodeSettings) {
+    const { muxer, finish } = createMuxer(spec, settings);
+    this.muxer = muxer;
+    this.finish = finish;
+    this.frameOptions = spec.frameOptions?.(quality) ?? {};
+
+    this.encoder = new VideoEncoder({
+      output: (chunk, meta) => this.muxer.addVideoChunk(chunk, meta),
+      error: (e) => {
+        this.error = e;
+        this.interrupt?.();
+      },
+    });
+    this.encoder.configure(encoderConfig(spec, quality, settings));
+
+    this.resizer = new OffscreenCanvas(settings.width, settings.height);
+    this.resizeCtx = this.resizer.getContext('2d');
+  }
+
+  // Encode the current canvas contents as the next frame. Throws if the
+  // encoder failed or the signal fired while waiting for queue space.
+  async addFrame(canvas: HTMLCanvasElement, signal?: AbortSignal) {
+    this.throwIfFailed();
+
+    // Backpressure: don't let captured frames pile up in memory
+    while (this.encoder.encodeQueueSize > MAX_QUEUE_SIZE) {
+      await this.untilDequeue(signal);
+      signal?.throwIfAborted();
+      this.throwIfFailed();
+    }
+
+    const { width, height, fps } = this.settings;
+    let source: HTMLCanvasElement | OffscreenCanvas = canvas;
+    if (this.resizeCtx && (canvas.width !== width || canvas.height !== height)) {
+      this.resizeCtx.imageSmoothingQuality = 'high';
+      this.resizeCtx.drawImage(canvas, 0, 0, width, height);
+      source = this.resizer;
+    }
+
+    // Timestamps come from the frame index (microseconds), like the offline clock
+    const index = this.frameCount++;
+    const frame = new VideoFrame(source, {
+      timestamp: Math.round((index * 1e6) / fps),
+      duration: Math.round(1e6 / fps),
+    });
+    this.encoder.encode(frame, {
+      ...this.frameOptions,
+      keyFrame: index % Math.max(1, Math.round(fps * KEYFRAME_INTERVAL)) === 0,
+    });
+    frame.close();
+  }
+
+  // Flush the encoder and return the muxed file
+  async finalize(): Promise<Uint8Array> {
+    await this.encoder.flush();
+    this.throwIfFailed();
+    this.encoder.close();
+    this.muxer.finalize();
+    return new Uint8Array(this.finish());
+  }
+
+  // Drop everything, for aborted or failed exports
+  close() {
+    if (this.encoder.state !== 'closed') this.encoder.close();
+    this.interrupt?.();
+  }
+
+  private throwIfFailed() {
+    if (this.error) throw this.error;
+    if (this.encoder.state === 'closed') throw new Error("Encoder was closed");
+  }
+
+  // Resolves on the next dequeue, or early on failure, close or abort
+  private untilDequeue(signal?: AbortSignal) {
+    return new Promise<void>((resolve) => {
+      const done = () => {
+        this.encoder.removeEventListener('dequeue', done);
+        signal?.removeEventListener('abort', done);
+        this.interrupt = null;
+        resolve();
+      };
+      this.encoder.addEventListener('dequeue', done);
+      signal?.addEventListener('abort', done);
+      this.interrupt = done;
+      if (signal?.aborted) done();
+    });
+  }
+}